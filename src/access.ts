@@ -0,0 +1,64 @@
+import { AccessLevel, DatabaseConfig } from './config.js';
+
+export const ACCESS_LEVELS: AccessLevel[] = ['readonly', 'dml', 'ddl'];
+
+export const DEFAULT_ACCESS_LEVEL: AccessLevel = 'ddl';
+
+// Minimum access level an environment needs for each tool to run against it.
+export const TOOL_ACCESS: Record<string, AccessLevel> = {
+  switchDatabase: 'readonly',
+  listDatabases: 'readonly',
+  getPoolStats: 'readonly',
+  getAuditLog: 'readonly',
+  approveOperation: 'readonly',
+  rejectOperation: 'readonly',
+  query: 'readonly',
+  explainQuery: 'readonly',
+  suggestIndexes: 'readonly',
+  getActivity: 'readonly',
+  getLocks: 'readonly',
+  getHealthReport: 'readonly',
+  compareSchemas: 'readonly',
+  compareData: 'readonly',
+  migrationStatus: 'readonly',
+  execute: 'dml',
+  insert: 'dml',
+  update: 'dml',
+  delete: 'dml',
+  terminateBackend: 'dml',
+  refreshMaterializedView: 'dml',
+  createTable: 'ddl',
+  createFunction: 'ddl',
+  createTrigger: 'ddl',
+  createIndex: 'ddl',
+  alterTable: 'ddl',
+  createView: 'ddl',
+  createType: 'ddl',
+  createSequence: 'ddl',
+  createSchema: 'ddl',
+  createExtension: 'ddl',
+  dropObject: 'ddl',
+  renameObject: 'ddl',
+  applyMigrations: 'ddl',
+  rollbackMigration: 'ddl',
+};
+
+// Commands `execute` may run on databases without ddl access
+export const DML_COMMANDS = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE'];
+
+export const getAccessLevel = (dbConfig: DatabaseConfig): AccessLevel => {
+  return dbConfig.access || DEFAULT_ACCESS_LEVEL;
+};
+
+// Tools missing from TOOL_ACCESS need full access, so a new tool is never allowed on a restricted database by omission
+export const getRequiredAccessLevel = (toolName: string): AccessLevel => {
+  return TOOL_ACCESS[toolName] || 'ddl';
+};
+
+export const isToolAllowed = (toolName: string, access: AccessLevel): boolean => {
+  return ACCESS_LEVELS.indexOf(access) >= ACCESS_LEVELS.indexOf(getRequiredAccessLevel(toolName));
+};
+
+export const isCommandAllowed = (command: string, access: AccessLevel): boolean => {
+  return access === 'ddl' || DML_COMMANDS.includes(command);
+};
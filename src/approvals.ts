@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+
+export const DEFAULT_APPROVAL_TIMEOUT = 15 * 60 * 1000;
+
+export interface PendingOperation {
+  id: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  database: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Holds mutating tool calls on protected databases until they are approved or rejected.
+// Operations live in memory only, so restarting the server discards everything still pending.
+export class ApprovalManager {
+  private operations = new Map<string, PendingOperation>();
+
+  create(
+    tool: string,
+    args: Record<string, unknown> | undefined,
+    database: string,
+    timeout: number = DEFAULT_APPROVAL_TIMEOUT
+  ): PendingOperation {
+    this.removeExpired();
+
+    const now = Date.now();
+    const operation: PendingOperation = {
+      id: randomUUID(),
+      tool,
+      arguments: args || {},
+      database,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeout).toISOString(),
+    };
+
+    this.operations.set(operation.id, operation);
+    return operation;
+  }
+
+  get(id: string): PendingOperation | undefined {
+    this.removeExpired();
+    return this.operations.get(id);
+  }
+
+  // Removes the operation so it can be approved or rejected only once
+  take(id: string): PendingOperation {
+    this.removeExpired();
+
+    const operation = this.operations.get(id);
+    if (!operation) {
+      throw new Error(`Pending operation '${id}' not found or expired`);
+    }
+
+    this.operations.delete(id);
+    return operation;
+  }
+
+  private removeExpired(): void {
+    const now = new Date().toISOString();
+    for (const [id, operation] of this.operations) {
+      if (operation.expiresAt <= now) {
+        this.operations.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { appendFile, readFile } from 'fs/promises';
+
+import { AuditConfig } from './config.js';
+import { DatabaseManager } from './database.js';
+import { quoteQualifiedName } from './sql.js';
+
+export const DEFAULT_AUDIT_TABLE = 'mcp_audit_log';
+export const DEFAULT_AUDIT_LOG_LIMIT = 50;
+
+const REDACTED = '[REDACTED]';
+
+// Argument keys are redacted when their name contains any of these (case-insensitive)
+const DEFAULT_REDACTED_KEYS = ['password', 'passwd', 'secret', 'token', 'apikey', 'api_key', 'credential'];
+
+export interface AuditEntry {
+  timestamp: string;
+  environment: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  sql: string[];
+  rowCount?: number;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  // Set when the call was only queued for approval on a protected database, and not executed yet
+  pending?: boolean;
+  // The pending operation a queued or approved call belongs to
+  operationId?: string;
+}
+
+export interface AuditLogFilter {
+  limit?: number;
+  environment?: string;
+  tool?: string;
+}
+
+export interface ToolCallRecord {
+  tool: string;
+  environment: string;
+  arguments?: Record<string, unknown>;
+  sql: string[];
+  startedAt: number;
+  pending?: boolean;
+  operationId?: string;
+}
+
+// Masks passwords in connection URIs (`user:secret@host`) and in SQL such as `ALTER ROLE ... PASSWORD '...'`
+const redactString = (value: string): string =>
+  value
+    .replace(/(\w+:\/\/[^:/@\s]+:)[^@\s]+@/g, `$1${REDACTED}@`)
+    .replace(/(PASSWORD\s+)'(?:[^']|'')*'/gi, `$1'${REDACTED}'`);
+
+export const redactArguments = (value: unknown, redactedKeys: string[] = DEFAULT_REDACTED_KEYS): any => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactArguments(item, redactedKeys));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactedKeys.some(redacted => key.toLowerCase().includes(redacted.toLowerCase()))
+          ? REDACTED
+          : redactArguments(item, redactedKeys),
+      ])
+    );
+  }
+  return value;
+};
+
+export class AuditLogger {
+  private tableReady?: Promise<void>;
+
+  constructor(private dbManager: DatabaseManager, private config: AuditConfig = {}) {
+    if (config.database && !dbManager.getDatabases()[config.database]) {
+      console.error(`Audit database '${config.database}' is not a configured database`);
+      process.exit(1);
+    }
+  }
+
+  // Applied after the databases are reloaded. An audit database that is no longer configured is dropped instead of
+  // failing every entry, and entries are still written to the file, if any.
+  updateConfig(config: AuditConfig = {}): void {
+    const { database, ...rest } = config;
+    if (database && !this.dbManager.getDatabases()[database]) {
+      console.error(`Audit database '${database}' is not a configured database; audit entries are not written to it`);
+      this.config = rest;
+    } else {
+      this.config = config;
+    }
+    // The table may now be another one, or in another database
+    this.tableReady = undefined;
+  }
+
+  createEntry(call: ToolCallRecord, outcome: CallToolResult | Error): AuditEntry {
+    const redactedKeys = [...DEFAULT_REDACTED_KEYS, ...(this.config.redact || [])];
+    const entry: AuditEntry = {
+      timestamp: new Date(call.startedAt).toISOString(),
+      environment: call.environment,
+      tool: call.tool,
+      arguments: redactArguments(call.arguments || {}, redactedKeys),
+      sql: call.sql.map(redactString),
+      durationMs: Date.now() - call.startedAt,
+      success: !(outcome instanceof Error) && !outcome.isError,
+      ...(call.pending && { pending: true }),
+      ...(call.operationId && { operationId: call.operationId }),
+    };
+
+    if (outcome instanceof Error) {
+      entry.error = outcome.message;
+      return entry;
+    }
+
+    const [first] = outcome.content;
+    if (first?.type === 'text') {
+      try {
+        const response = JSON.parse(first.text);
+        // An approval wraps the result of the operation it ran
+        const payload = call.operationId && !call.pending && response.result ? response.result : response;
+        entry.rowCount = payload.rowCount ?? (Array.isArray(payload.rows) ? payload.rows.length : undefined);
+        entry.error = payload.error;
+      } catch (error) {
+        // Non-JSON responses carry no row count or error details
+      }
+    }
+
+    return entry;
+  }
+
+  // Audit failures are logged but never fail the tool call that is being audited
+  async record(entry: AuditEntry): Promise<void> {
+    if (this.config.file) {
+      try {
+        await appendFile(this.config.file, `${JSON.stringify(entry)}\n`, 'utf8');
+      } catch (error) {
+        console.error(`Failed to write audit log file '${this.config.file}':`, error);
+      }
+    }
+
+    if (this.config.database) {
+      try {
+        await this.insertEntry(this.config.database, entry);
+      } catch (error) {
+        console.error(`Failed to write audit log table in database '${this.config.database}':`, error);
+      }
+    }
+  }
+
+  async getRecentEntries(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    const limit = filter.limit && filter.limit > 0 ? filter.limit : DEFAULT_AUDIT_LOG_LIMIT;
+
+    if (this.config.database) {
+      return this.readTableEntries(this.config.database, { ...filter, limit });
+    }
+    if (this.config.file) {
+      return this.readFileEntries(this.config.file, { ...filter, limit });
+    }
+    throw new Error('Audit logging is not configured');
+  }
+
+  private getTableName(): string {
+    return quoteQualifiedName(this.config.table || DEFAULT_AUDIT_TABLE);
+  }
+
+  private ensureTable(database: string): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = this.dbManager
+        .executeWithConnection(async client => {
+          await client.query(
+            `CREATE TABLE IF NOT EXISTS ${this.getTableName()} (
+               id BIGSERIAL PRIMARY KEY,
+               timestamp TIMESTAMPTZ NOT NULL,
+               environment TEXT NOT NULL,
+               tool TEXT NOT NULL,
+               arguments JSONB NOT NULL,
+               sql TEXT[] NOT NULL,
+               row_count INTEGER,
+               duration_ms INTEGER NOT NULL,
+               success BOOLEAN NOT NULL,
+               error TEXT
+             )`
+          );
+          // Added after the table was first introduced
+          await client.query(
+            `ALTER TABLE ${this.getTableName()}
+               ADD COLUMN IF NOT EXISTS pending BOOLEAN NOT NULL DEFAULT false,
+               ADD COLUMN IF NOT EXISTS operation_id TEXT`
+          );
+        }, { database })
+        .catch(error => {
+          this.tableReady = undefined;
+          throw error;
+        });
+    }
+    return this.tableReady;
+  }
+
+  private async insertEntry(database: string, entry: AuditEntry): Promise<void> {
+    await this.ensureTable(database);
+    await this.dbManager.executeWithConnection(
+      client =>
+        client.query(
+          `INSERT INTO ${this.getTableName()}
+             (timestamp, environment, tool, arguments, sql, row_count, duration_ms, success, error, pending,
+              operation_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+          [
+            entry.timestamp,
+            entry.environment,
+            entry.tool,
+            JSON.stringify(entry.arguments),
+            entry.sql,
+            entry.rowCount ?? null,
+            entry.durationMs,
+            entry.success,
+            entry.error ?? null,
+            entry.pending ?? false,
+            entry.operationId ?? null,
+          ]
+        ),
+      { database }
+    );
+  }
+
+  private async readTableEntries(database: string, filter: AuditLogFilter): Promise<AuditEntry[]> {
+    await this.ensureTable(database);
+    const result = await this.dbManager.executeWithConnection(
+      client =>
+        client.query(
+          `SELECT timestamp, environment, tool, arguments, sql, row_count AS "rowCount", duration_ms AS "durationMs",
+             success, error, pending, operation_id AS "operationId"
+           FROM ${this.getTableName()}
+           WHERE ($1::text IS NULL OR environment = $1) AND ($2::text IS NULL OR tool = $2)
+           ORDER BY id DESC
+           LIMIT $3`,
+          [filter.environment ?? null, filter.tool ?? null, filter.limit]
+        ),
+      { database }
+    );
+
+    return result.rows.map(row => ({
+      ...row,
+      timestamp: new Date(row.timestamp).toISOString(),
+      rowCount: row.rowCount ?? undefined,
+      error: row.error ?? undefined,
+      pending: row.pending || undefined,
+      operationId: row.operationId ?? undefined,
+    }));
+  }
+
+  private async readFileEntries(file: string, filter: AuditLogFilter): Promise<AuditEntry[]> {
+    let contents: string;
+    try {
+      contents = await readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as AuditEntry)
+      .filter(entry => !filter.environment || entry.environment === filter.environment)
+      .filter(entry => !filter.tool || entry.tool === filter.tool)
+      .reverse()
+      .slice(0, filter.limit);
+  }
+}
@@ -0,0 +1,298 @@
+import { ClientBase } from 'pg';
+
+import { splitQualifiedName } from './sql.js';
+
+export type SchemaObjectKind = 'table' | 'view' | 'materialized view' | 'foreign table' | 'enum';
+
+export interface SchemaObject {
+  schema: string;
+  name: string;
+  kind: SchemaObjectKind;
+}
+
+export interface ColumnDescription {
+  name: string;
+  dataType: string;
+  nullable: boolean;
+  default: string | null;
+  comment: string | null;
+}
+
+export interface ForeignKeyDescription {
+  name: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  definition: string;
+}
+
+export interface ConstraintDescription {
+  name: string;
+  columns: string[];
+  definition: string;
+}
+
+export interface IndexDescription {
+  name: string;
+  definition: string;
+  unique: boolean;
+  primary: boolean;
+}
+
+export interface RelationDescription extends SchemaObject {
+  comment: string | null;
+  rowEstimate: number | null;
+  columns: ColumnDescription[];
+  primaryKey: ConstraintDescription | null;
+  foreignKeys: ForeignKeyDescription[];
+  uniqueConstraints: ConstraintDescription[];
+  checkConstraints: ConstraintDescription[];
+  exclusionConstraints: ConstraintDescription[];
+  indexes: IndexDescription[];
+  viewDefinition?: string;
+}
+
+export interface EnumDescription extends SchemaObject {
+  comment: string | null;
+  values: string[];
+}
+
+export interface FunctionDescription {
+  schema: string;
+  name: string;
+  arguments: string;
+  kind: 'function' | 'procedure';
+  definition: string;
+}
+
+export interface TriggerDescription {
+  schema: string;
+  table: string;
+  name: string;
+  definition: string;
+}
+
+// Restricts a pg_namespace alias `n` to user-defined schemas
+export const USER_SCHEMA_FILTER = `n.nspname NOT IN ('pg_catalog', 'information_schema')
+  AND n.nspname NOT LIKE 'pg\\_toast%'
+  AND n.nspname NOT LIKE 'pg\\_temp\\_%'`;
+
+const RELATION_KINDS: Record<string, SchemaObjectKind> = {
+  r: 'table',
+  p: 'table',
+  v: 'view',
+  m: 'materialized view',
+  f: 'foreign table',
+};
+
+export const listSchemaObjects = async (client: ClientBase): Promise<SchemaObject[]> => {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+       AND NOT c.relispartition
+       AND ${USER_SCHEMA_FILTER}
+     UNION ALL
+     SELECT n.nspname, t.typname, 'e'
+     FROM pg_type t
+     JOIN pg_namespace n ON n.oid = t.typnamespace
+     WHERE t.typtype = 'e'
+       AND ${USER_SCHEMA_FILTER}
+     ORDER BY 1, 2`
+  );
+
+  return result.rows.map(row => ({
+    schema: row.schema,
+    name: row.name,
+    kind: row.kind === 'e' ? 'enum' : RELATION_KINDS[row.kind],
+  }));
+};
+
+export const describeRelation = async (
+  client: ClientBase,
+  schema: string,
+  name: string
+): Promise<RelationDescription | null> => {
+  const relation = await client.query(
+    `SELECT c.oid, c.relkind, obj_description(c.oid, 'pg_class') AS comment, c.reltuples::bigint AS reltuples,
+       CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS "viewDefinition"
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm', 'f')`,
+    [schema, name]
+  );
+
+  if (relation.rows.length === 0) {
+    return null;
+  }
+
+  const { oid, relkind, comment, reltuples, viewDefinition } = relation.rows[0];
+
+  const columns = await client.query(
+    `SELECT a.attname AS name, format_type(a.atttypid, a.atttypmod) AS "dataType", NOT a.attnotnull AS nullable,
+       pg_get_expr(d.adbin, d.adrelid) AS default, col_description(a.attrelid, a.attnum) AS comment
+     FROM pg_attribute a
+     LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+     WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY a.attnum`,
+    [oid]
+  );
+
+  const constraints = await client.query(
+    `SELECT con.conname AS name, con.contype AS type, pg_get_constraintdef(con.oid) AS definition,
+       ARRAY(
+         SELECT a.attname::text FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+         JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+         ORDER BY k.ord
+       ) AS columns,
+       fn.nspname AS "referencedSchema", fc.relname AS "referencedTable",
+       ARRAY(
+         SELECT a.attname::text FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord)
+         JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+         ORDER BY k.ord
+       ) AS "referencedColumns"
+     FROM pg_constraint con
+     LEFT JOIN pg_class fc ON fc.oid = con.confrelid
+     LEFT JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+     WHERE con.conrelid = $1
+     ORDER BY con.conname`,
+    [oid]
+  );
+
+  const indexes = await client.query(
+    `SELECT i.relname AS name, pg_get_indexdef(ix.indexrelid) AS definition, ix.indisunique AS unique,
+       ix.indisprimary AS primary
+     FROM pg_index ix
+     JOIN pg_class i ON i.oid = ix.indexrelid
+     WHERE ix.indrelid = $1
+     ORDER BY i.relname`,
+    [oid]
+  );
+
+  const constraintsOfType = (type: string): ConstraintDescription[] =>
+    constraints.rows
+      .filter(row => row.type === type)
+      .map(row => ({ name: row.name, columns: row.columns, definition: row.definition }));
+
+  return {
+    schema,
+    name,
+    kind: RELATION_KINDS[relkind],
+    comment,
+    // reltuples is -1 for tables that have never been vacuumed or analyzed
+    rowEstimate: Number(reltuples) >= 0 ? Number(reltuples) : null,
+    columns: columns.rows,
+    primaryKey: constraintsOfType('p')[0] || null,
+    foreignKeys: constraints.rows
+      .filter(row => row.type === 'f')
+      .map(row => ({
+        name: row.name,
+        columns: row.columns,
+        referencedSchema: row.referencedSchema,
+        referencedTable: row.referencedTable,
+        referencedColumns: row.referencedColumns,
+        definition: row.definition,
+      })),
+    uniqueConstraints: constraintsOfType('u'),
+    checkConstraints: constraintsOfType('c'),
+    exclusionConstraints: constraintsOfType('x'),
+    indexes: indexes.rows,
+    viewDefinition: viewDefinition ?? undefined,
+  };
+};
+
+export const describeEnum = async (client: ClientBase, schema: string, name: string): Promise<EnumDescription | null> => {
+  const result = await client.query(
+    `SELECT obj_description(t.oid, 'pg_type') AS comment,
+       ARRAY(SELECT e.enumlabel::text FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder) AS values
+     FROM pg_type t
+     JOIN pg_namespace n ON n.oid = t.typnamespace
+     WHERE n.nspname = $1 AND t.typname = $2 AND t.typtype = 'e'`,
+    [schema, name]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return { schema, name, kind: 'enum', comment: result.rows[0].comment, values: result.rows[0].values };
+};
+
+export const listFunctions = async (client: ClientBase): Promise<FunctionDescription[]> => {
+  // Functions installed by extensions belong to the extension rather than the schema
+  const result = await client.query(
+    `SELECT n.nspname AS schema, p.proname AS name, pg_get_function_identity_arguments(p.oid) AS arguments,
+       CASE p.prokind WHEN 'p' THEN 'procedure' ELSE 'function' END AS kind, pg_get_functiondef(p.oid) AS definition
+     FROM pg_proc p
+     JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE p.prokind IN ('f', 'p')
+       AND ${USER_SCHEMA_FILTER}
+       AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.objid = p.oid AND d.deptype = 'e')
+     ORDER BY 1, 2, 3`
+  );
+
+  return result.rows;
+};
+
+export const listTriggers = async (client: ClientBase): Promise<TriggerDescription[]> => {
+  const result = await client.query(
+    `SELECT n.nspname AS schema, c.relname AS table, t.tgname AS name, pg_get_triggerdef(t.oid) AS definition
+     FROM pg_trigger t
+     JOIN pg_class c ON c.oid = t.tgrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE NOT t.tgisinternal
+       AND ${USER_SCHEMA_FILTER}
+     ORDER BY 1, 2, 3`
+  );
+
+  return result.rows;
+};
+
+// Takes a (quoted) relation name as resolved by `::regclass`
+export const getPrimaryKeyColumns = async (client: ClientBase, table: string): Promise<string[]> => {
+  const result = await client.query(
+    `SELECT a.attname AS name
+     FROM pg_index ix
+     CROSS JOIN unnest(ix.indkey) WITH ORDINALITY k(attnum, ord)
+     JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+     WHERE ix.indrelid = $1::regclass AND ix.indisprimary
+     ORDER BY k.ord`,
+    [table]
+  );
+
+  return result.rows.map(row => row.name);
+};
+
+// Planner row estimates from the last ANALYZE, keyed by the names as given; unknown relations are left out
+export const getRelationRowEstimates = async (client: ClientBase, names: string[]): Promise<Record<string, number>> => {
+  if (names.length === 0) {
+    return {};
+  }
+
+  const result = await client.query(
+    `SELECT n.name, c.reltuples::bigint AS rows
+     FROM unnest($1::text[]) n(name)
+     JOIN pg_class c ON c.oid = to_regclass(n.name)
+     WHERE c.reltuples >= 0`,
+    [names]
+  );
+
+  return Object.fromEntries(result.rows.map(row => [row.name, Number(row.rows)]));
+};
+
+// Definitions of the functions with this (optionally schema-qualified) name, keyed by their identity arguments.
+// Unqualified names resolve to the schema CREATE FUNCTION would use.
+export const getFunctionDefinitions = async (client: ClientBase, name: string): Promise<Record<string, string>> => {
+  const parts = splitQualifiedName(name);
+  const result = await client.query(
+    `SELECT pg_get_function_identity_arguments(p.oid) AS arguments, pg_get_functiondef(p.oid) AS definition
+     FROM pg_proc p
+     JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE p.proname = $1 AND n.nspname = coalesce($2, current_schema())`,
+    [parts[parts.length - 1], parts.length > 1 ? parts[parts.length - 2] : null]
+  );
+
+  return Object.fromEntries(result.rows.map(row => [row.arguments, row.definition]));
+};
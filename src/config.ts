@@ -1,3 +1,35 @@
+import { readFileSync, Stats, unwatchFile, watchFile } from 'fs';
+import { parse as parseYaml } from 'yaml';
+
+import { validateConfig } from './configSchema.js';
+import { resolveSecrets, SecretContext, SecretProvider } from './secrets.js';
+
+export const CONFIG_ENV_VAR = 'POSTGRES_MULTI_MCP_CONFIG';
+export const CONFIG_WATCH_INTERVAL = 1000;
+
+export type AccessLevel = 'readonly' | 'dml' | 'ddl';
+
+export type SslMode = 'disable' | 'require' | 'verify-ca' | 'verify-full';
+
+export interface SslConfig {
+  mode?: SslMode;
+  ca?: string;
+  cert?: string;
+  key?: string;
+  servername?: string;
+}
+
+export interface SshTunnelConfig {
+  host: string;
+  port?: number;
+  username: string;
+  privateKey?: string;
+  passphrase?: string;
+  agent?: boolean | string;
+  hostKeyFingerprint?: string;
+  allowUnknownHostKey?: boolean;
+}
+
 export interface DatabaseConfig {
   type: string;
   host?: string;
@@ -6,8 +38,18 @@ export interface DatabaseConfig {
   username?: string;
   password?: string;
   connectionString?: string;
-  ssl?: boolean;
+  ssl?: boolean | SslConfig;
+  sshTunnel?: SshTunnelConfig;
   poolSize?: number;
+  access?: AccessLevel;
+  maxAffectedRows?: number;
+  protected?: boolean;
+  maxRows?: number;
+  maxResultBytes?: number;
+  statementTimeout?: number;
+  lockTimeout?: number;
+  approvalTimeout?: number;
+  allowTerminate?: boolean;
 }
 
 export interface Environment {
@@ -22,27 +64,134 @@ export interface EnvironmentVariable {
   default?: string;
 }
 
+export interface AuditConfig {
+  file?: string;
+  database?: string;
+  table?: string;
+  redact?: string[];
+}
+
+export interface MigrationsConfig {
+  directory: string;
+  table?: string;
+}
+
 export interface Config {
   environments?: Environment[];
   databases?: Record<string, DatabaseConfig>;
   environmentVariables?: EnvironmentVariable[];
+  audit?: AuditConfig;
+  migrations?: MigrationsConfig;
+}
+
+export interface ConfigSource {
+  origin: string;
+  text: string;
+  path?: string;
+}
+
+function readConfigFile(path: string): ConfigSource {
+  return { origin: `file '${path}'`, text: readFileSync(path, 'utf8'), path };
+}
+
+function getConfigFileArgument(args: string[]): string | undefined {
+  const index = args.findIndex(arg => arg === '--config' || arg.startsWith('--config='));
+  if (index === -1) {
+    return undefined;
+  }
+
+  const path = args[index].startsWith('--config=') ? args[index].slice('--config='.length) : args[index + 1];
+  if (!path) {
+    throw new Error('--config requires a file path');
+  }
+  return path;
+}
+
+// Returns the config file in use, if the configuration comes from a file rather than inline JSON
+export function getConfigFilePath(args: string[] = process.argv.slice(2)): string | undefined {
+  const configPath = getConfigFileArgument(args);
+  if (configPath) {
+    return configPath;
+  }
+  if (args.some(arg => !arg.startsWith('--'))) {
+    return undefined;
+  }
+
+  const envValue = process.env[CONFIG_ENV_VAR]?.trim();
+  return envValue && !envValue.startsWith('{') ? envValue : undefined;
+}
+
+// Configuration comes from `--config <path>`, an inline JSON argument, or the POSTGRES_MULTI_MCP_CONFIG
+// environment variable holding either inline JSON or a file path, in that order of precedence.
+export function readConfigSource(args: string[] = process.argv.slice(2)): ConfigSource | undefined {
+  const configPath = getConfigFilePath(args);
+  if (configPath) {
+    return readConfigFile(configPath);
+  }
+
+  const inline = args.find(arg => !arg.startsWith('--'));
+  if (inline) {
+    return { origin: 'command line argument', text: inline };
+  }
+
+  const envValue = process.env[CONFIG_ENV_VAR]?.trim();
+  return envValue ? { origin: CONFIG_ENV_VAR, text: envValue } : undefined;
+}
+
+export function parseConfig(source: ConfigSource): Config {
+  const isYaml = source.path !== undefined && /\.ya?ml$/i.test(source.path);
+  const config = isYaml ? parseYaml(source.text) : JSON.parse(source.text);
+
+  const problems = validateConfig(config);
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+
+  return config as Config;
 }
 
 export function loadConfig(): Config {
-  const args = process.argv.slice(2);
-
-  if (args.length > 0) {
-    try {
-      const configData = args[0];
-      return JSON.parse(configData) as Config;
-    } catch (error) {
-      console.error('Failed to parse config from command line argument:', error);
-      process.exit(1);
-    }
+  let source: ConfigSource | undefined;
+
+  try {
+    source = readConfigSource();
+  } catch (error) {
+    console.error('Failed to read config:', error instanceof Error ? error.message : error);
+    process.exit(1);
   }
 
-  console.error('No configuration found. Please provide config as a command line argument.');
-  process.exit(1);
+  if (!source) {
+    console.error(
+      `No configuration found. Please provide --config <path>, a JSON command line argument or the ${CONFIG_ENV_VAR} environment variable.`
+    );
+    process.exit(1);
+  }
+
+  try {
+    return parseConfig(source);
+  } catch (error) {
+    console.error(`Failed to load config from ${source.origin}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Polls the file rather than using fs.watch, which stops following files that editors replace on save.
+// A change that fails to parse or validate is logged and the current configuration stays in effect.
+export function watchConfigFile(path: string, onChange: (config: Config) => Promise<void>): () => void {
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => onChange(parseConfig(readConfigFile(path))))
+      .catch(error => {
+        console.error(`Failed to reload config from '${path}':`, error instanceof Error ? error.message : error);
+      });
+  };
+
+  watchFile(path, { interval: CONFIG_WATCH_INTERVAL, persistent: false }, listener);
+  return () => unwatchFile(path, listener);
 }
 
 export function resolveEnvironmentVariables(config: Config): Record<string, string> {
@@ -57,8 +206,7 @@ export function resolveEnvironmentVariables(config: Config): Record<string, stri
       if (envVar.default) {
         envVars[envVar.name] = envVar.default;
       } else {
-        console.error(`Missing required environment variable: ${envVar.name}`);
-        process.exit(1);
+        throw new Error(`Missing required environment variable: ${envVar.name}`);
       }
     } else {
       envVars[envVar.name] = value;
@@ -68,30 +216,39 @@ export function resolveEnvironmentVariables(config: Config): Record<string, stri
   return envVars;
 }
 
-export function substituteVariables(text: string, envVars: Record<string, string>): string {
-  let result = text;
-
-  result = result.replace(/\$\{env:([^}]+)\}/g, (match, envName) => {
+// Environment variables are substituted in the same pass as secrets, so a value holding `${cmd:...}` is not run
+export async function substituteVariables(
+  text: string,
+  envVars: Record<string, string>,
+  context?: SecretContext,
+  encode?: (value: string) => string
+): Promise<string> {
+  const env: SecretProvider = async envName => {
     const value = envVars[envName];
     if (value === undefined) {
       throw new Error(`Unknown environment variable: ${envName}`);
     }
     return value;
-  });
+  };
 
-  return result;
+  return resolveSecrets(text, context, { env }, encode);
 }
 
-export function buildConnectionString(dbConfig: DatabaseConfig, envVars: Record<string, string>): string {
+export async function buildConnectionString(
+  dbConfig: DatabaseConfig,
+  envVars: Record<string, string>
+): Promise<string> {
+  // Values substituted into a URL are percent-encoded, so a `@`, `/` or `#` in a password cannot end its field
   if (dbConfig.connectionString) {
-    return substituteVariables(dbConfig.connectionString, envVars);
+    const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(dbConfig.connectionString);
+    return substituteVariables(dbConfig.connectionString, envVars, undefined, isUrl ? encodeURIComponent : undefined);
   }
 
-  const host = substituteVariables(dbConfig.host || 'localhost', envVars);
+  const host = await substituteVariables(dbConfig.host || 'localhost', envVars);
   const port = dbConfig.port || 5432;
-  const database = substituteVariables(dbConfig.database || 'postgres', envVars);
-  const username = dbConfig.username ? substituteVariables(dbConfig.username, envVars) : '';
-  const password = dbConfig.password ? substituteVariables(dbConfig.password, envVars) : '';
+  const database = await substituteVariables(dbConfig.database || 'postgres', envVars);
+  const username = dbConfig.username ? await substituteVariables(dbConfig.username, envVars) : '';
+  const password = dbConfig.password ? await substituteVariables(dbConfig.password, envVars) : '';
 
   let connectionString = 'postgresql://';
 
@@ -110,3 +267,20 @@ export function buildConnectionString(dbConfig: DatabaseConfig, envVars: Record<
 
   return connectionString;
 }
+
+export async function resolveConnectionFields(
+  dbConfig: DatabaseConfig,
+  envVars: Record<string, string>
+): Promise<SecretContext> {
+  return {
+    host: await substituteVariables(dbConfig.host || 'localhost', envVars),
+    port: dbConfig.port || 5432,
+    database: await substituteVariables(dbConfig.database || 'postgres', envVars),
+    username: dbConfig.username ? await substituteVariables(dbConfig.username, envVars) : '',
+  };
+}
+
+// Resolved for every new connection, so rotated secrets are picked up without restarting the server
+export async function resolvePassword(dbConfig: DatabaseConfig, envVars: Record<string, string>): Promise<string> {
+  return substituteVariables(dbConfig.password || '', envVars, await resolveConnectionFields(dbConfig, envVars));
+}
@@ -0,0 +1,165 @@
+import Ajv, { ErrorObject } from 'ajv';
+
+import { ACCESS_LEVELS } from './access.js';
+import { SSL_MODES } from './ssl.js';
+
+const nonNegativeInteger = { type: 'integer', minimum: 0 };
+
+const sslConfigSchema = {
+  // `true` is shorthand for an encrypted connection without certificate verification
+  type: ['boolean', 'object'],
+  properties: {
+    mode: { enum: SSL_MODES },
+    ca: { type: 'string', minLength: 1 },
+    cert: { type: 'string', minLength: 1 },
+    key: { type: 'string', minLength: 1 },
+    servername: { type: 'string', minLength: 1 },
+  },
+  additionalProperties: false,
+};
+
+const sshTunnelConfigSchema = {
+  type: 'object',
+  properties: {
+    host: { type: 'string', minLength: 1 },
+    port: { type: 'integer', minimum: 1, maximum: 65535 },
+    username: { type: 'string', minLength: 1 },
+    privateKey: { type: 'string', minLength: 1 },
+    passphrase: { type: 'string' },
+    // `true` uses the agent at SSH_AUTH_SOCK, a string is the agent's socket path
+    agent: { type: ['boolean', 'string'] },
+    hostKeyFingerprint: { type: 'string', pattern: '^SHA256:' },
+    allowUnknownHostKey: { type: 'boolean' },
+  },
+  required: ['host', 'username'],
+  additionalProperties: false,
+  // The host key is verified unless that is explicitly turned off
+  if: { not: { properties: { allowUnknownHostKey: { const: true } }, required: ['allowUnknownHostKey'] } },
+  then: { required: ['hostKeyFingerprint'] },
+};
+
+const databaseConfigSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    host: { type: 'string', minLength: 1 },
+    port: { type: 'integer', minimum: 1, maximum: 65535 },
+    database: { type: 'string' },
+    username: { type: 'string' },
+    password: { type: 'string' },
+    connectionString: { type: 'string', minLength: 1 },
+    ssl: sslConfigSchema,
+    sshTunnel: sshTunnelConfigSchema,
+    poolSize: { type: 'integer', minimum: 1 },
+    access: { enum: ACCESS_LEVELS },
+    maxAffectedRows: nonNegativeInteger,
+    protected: { type: 'boolean' },
+    maxRows: { type: 'integer', minimum: 1 },
+    maxResultBytes: { type: 'integer', minimum: 1 },
+    statementTimeout: nonNegativeInteger,
+    lockTimeout: nonNegativeInteger,
+    approvalTimeout: nonNegativeInteger,
+    allowTerminate: { type: 'boolean' },
+  },
+  required: ['type'],
+  additionalProperties: false,
+  // Without a connection string the connection is assembled from the individual fields
+  if: { not: { required: ['connectionString'] } },
+  then: { required: ['host'] },
+};
+
+export const CONFIG_SCHEMA = {
+  type: 'object',
+  properties: {
+    environments: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          displayName: { type: 'string' },
+          database: databaseConfigSchema,
+        },
+        required: ['name', 'displayName', 'database'],
+        additionalProperties: false,
+      },
+    },
+    databases: {
+      type: 'object',
+      minProperties: 1,
+      additionalProperties: databaseConfigSchema,
+    },
+    environmentVariables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          default: { type: 'string' },
+        },
+        required: ['name'],
+        additionalProperties: false,
+      },
+    },
+    audit: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', minLength: 1 },
+        database: { type: 'string', minLength: 1 },
+        table: { type: 'string', minLength: 1 },
+        redact: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    },
+    migrations: {
+      type: 'object',
+      properties: {
+        directory: { type: 'string', minLength: 1 },
+        table: { type: 'string', minLength: 1 },
+      },
+      required: ['directory'],
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+  if: { not: { required: ['environments'] } },
+  then: { required: ['databases'] },
+};
+
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validate = ajv.compile(CONFIG_SCHEMA);
+
+// Renders `/databases/prod/port` as `databases.prod.port`
+const formatPath = (instancePath: string): string =>
+  instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.') || '(root)';
+
+const formatError = (error: ErrorObject): string => {
+  const path = formatPath(error.instancePath);
+
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return `${path}: unknown field '${error.params.additionalProperty}'`;
+    case 'required':
+      return `${path}: missing required field '${error.params.missingProperty}'`;
+    case 'enum':
+      return `${path}: must be one of ${error.params.allowedValues.join(', ')}`;
+    default:
+      return `${path}: ${error.message}`;
+  }
+};
+
+// Returns one message per problem, each prefixed with the path of the offending value
+export const validateConfig = (config: unknown): string[] => {
+  if (validate(config)) {
+    return [];
+  }
+
+  // The `if` keyword only reports that its `then` branch failed, which the branch's own errors already explain
+  return (validate.errors || []).filter(error => error.keyword !== 'if').map(formatError);
+};
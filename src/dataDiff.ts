@@ -0,0 +1,115 @@
+import { quoteIdentifier, quoteQualifiedName } from './sql.js';
+
+// Column that carries the row hash when rows are compared by hash instead of by value
+export const ROW_HASH_COLUMN = '__row_hash';
+
+export interface DataComparisonQuery {
+  sql?: string;
+  table?: string;
+  keyColumns: string[];
+  hash: boolean;
+  limit: number;
+}
+
+export interface ChangedRow {
+  key: Record<string, any>;
+  columns?: Record<string, { source: any; target: any }>;
+}
+
+export interface DataDiff {
+  matching: number;
+  onlyInSource: any[];
+  onlyInTarget: any[];
+  changed: ChangedRow[];
+  unverified: number;
+}
+
+// Builds a query returning at most `limit + 1` rows ordered by key, so the caller can tell when rows were cut off.
+// With `hash` set only the key columns and an md5 of the whole row leave the database.
+export const buildComparisonQuery = ({ sql, table, keyColumns, hash, limit }: DataComparisonQuery): string => {
+  const rowSource = table ? quoteQualifiedName(table) : `(${(sql || '').trim().replace(/;\s*$/, '')})`;
+  const keys = keyColumns.map(column => `compared.${quoteIdentifier(column)}`);
+  const rowHash = 'md5(row_to_json(compared)::text)';
+  const columns = hash ? [...keys, `${rowHash} AS ${quoteIdentifier(ROW_HASH_COLUMN)}`].join(', ') : 'compared.*';
+  const orderBy = keys.length > 0 ? keys.join(', ') : rowHash;
+
+  return `SELECT ${columns} FROM ${rowSource} AS compared ORDER BY ${orderBy} LIMIT ${limit + 1}`;
+};
+
+const rowKey = (row: any, keyColumns: string[]): string =>
+  JSON.stringify(keyColumns.length > 0 ? keyColumns.map(column => row[column]) : row);
+
+const pickKey = (row: any, keyColumns: string[]): Record<string, any> =>
+  Object.fromEntries(keyColumns.map(column => [column, row[column]]));
+
+// Matches rows by key column values. Without key columns the whole row is the key, so rows can only be
+// missing on one side and never reported as changed. Duplicate keys are matched one to one.
+//
+// Both sides are read in the same order. When one side was cut off at the limit, unmatched rows of the other side
+// that come after its last matched row may lie beyond that limit rather than be missing, so they are only counted
+// as `unverified`.
+export const diffRows = (
+  sourceRows: any[],
+  targetRows: any[],
+  keyColumns: string[],
+  truncated: { source: boolean; target: boolean } = { source: false, target: false }
+): DataDiff => {
+  const diff: DataDiff = { matching: 0, onlyInSource: [], onlyInTarget: [], changed: [], unverified: 0 };
+  const targetByKey = new Map<string, number[]>();
+  const matchedTargets = new Set<number>();
+  const unmatchedSources: number[] = [];
+  let lastMatchedSource = -1;
+  let lastMatchedTarget = -1;
+
+  targetRows.forEach((row, index) => {
+    const key = rowKey(row, keyColumns);
+    targetByKey.set(key, [...(targetByKey.get(key) || []), index]);
+  });
+
+  sourceRows.forEach((sourceRow, sourceIndex) => {
+    const targetIndex = targetByKey.get(rowKey(sourceRow, keyColumns))?.shift();
+
+    if (targetIndex === undefined) {
+      unmatchedSources.push(sourceIndex);
+      return;
+    }
+    matchedTargets.add(targetIndex);
+    lastMatchedSource = sourceIndex;
+    lastMatchedTarget = Math.max(lastMatchedTarget, targetIndex);
+
+    const targetRow = targetRows[targetIndex];
+    const columns: Record<string, { source: any; target: any }> = {};
+    for (const column of new Set([...Object.keys(sourceRow), ...Object.keys(targetRow)])) {
+      if (!keyColumns.includes(column) && JSON.stringify(sourceRow[column]) !== JSON.stringify(targetRow[column])) {
+        columns[column] = { source: sourceRow[column], target: targetRow[column] };
+      }
+    }
+
+    if (Object.keys(columns).length === 0) {
+      diff.matching++;
+    } else if (ROW_HASH_COLUMN in columns) {
+      diff.changed.push({ key: pickKey(sourceRow, keyColumns) });
+    } else {
+      diff.changed.push({ key: pickKey(sourceRow, keyColumns), columns });
+    }
+  });
+
+  const unmatchedTargets = targetRows.map((_, index) => index).filter(index => !matchedTargets.has(index));
+
+  for (const index of unmatchedSources) {
+    if (truncated.target && index > lastMatchedSource) {
+      diff.unverified++;
+    } else {
+      diff.onlyInSource.push(sourceRows[index]);
+    }
+  }
+  for (const index of unmatchedTargets) {
+    if (truncated.source && index > lastMatchedTarget) {
+      diff.unverified++;
+    } else {
+      diff.onlyInTarget.push(targetRows[index]);
+    }
+  }
+
+  return diff;
+};
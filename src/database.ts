@@ -1,22 +1,103 @@
-import { Client, Pool } from 'pg';
+import { isIP } from 'net';
+import { Client, ClientConfig, Pool, PoolClient, PoolConfig } from 'pg';
+import { parseIntoClientConfig } from 'pg-connection-string';
 
-import { buildConnectionString, Config, DatabaseConfig, resolveEnvironmentVariables } from './config.js';
+import { getAccessLevel } from './access.js';
+import {
+    AccessLevel, buildConnectionString, Config, DatabaseConfig, resolveConnectionFields, resolveEnvironmentVariables,
+    resolvePassword, substituteVariables
+} from './config.js';
+import { SshTunnel, TunnelTarget } from './sshTunnel.js';
+import { buildSslOptions, extractSslParameters } from './ssl.js';
+
+export const DEFAULT_POOL_SIZE = 10;
+
+export interface PoolStats {
+  database: string;
+  max: number;
+  totalCount: number;
+  idleCount: number;
+  waitingCount: number;
+}
+
+export interface ExecutionOptions {
+  database?: string;
+  signal?: AbortSignal;
+  statementTimeout?: number;
+  lockTimeout?: number;
+  // Collects the SQL generated for the call so it can be written to the audit log
+  statements?: string[];
+  // Set for approval previews, which show the SQL a call would run without running it
+  preview?: boolean;
+}
+
+export interface DatabaseChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+// A per-call timeout can only shorten the database's timeout; 0 or no value leaves the database's timeout in place
+const limitTimeout = (requested: number | undefined, configured: number | undefined): number | undefined =>
+  !requested ? configured : !configured ? requested : Math.min(requested, configured);
+
+const getDatabaseConfigs = (config: Config): Record<string, DatabaseConfig> => {
+  return config.environments
+    ? Object.fromEntries(config.environments.map(env => [env.name, env.database]))
+    : config.databases || {};
+};
 
 export class DatabaseManager {
   private databases: Record<string, DatabaseConfig> = {};
+  private pools: Record<string, Pool> = {};
+  private tunnels: Record<string, SshTunnel> = {};
   private currentDatabase: string;
   private envVars: Record<string, string>;
 
   constructor(config: Config) {
-    this.envVars = resolveEnvironmentVariables(config);
-
-    this.databases = config.environments
-      ? Object.fromEntries(config.environments.map(env => [env.name, env.database]))
-      : config.databases || {};
+    try {
+      this.envVars = resolveEnvironmentVariables(config);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
 
+    this.databases = getDatabaseConfigs(config);
     this.currentDatabase = Object.keys(this.databases)[0];
   }
 
+  // Applies a changed configuration. Pools and SSH tunnels of databases that were removed or whose settings changed
+  // are drained in the background, so calls still holding a client finish before the old connections close.
+  reload(config: Config): DatabaseChanges {
+    const envVars = resolveEnvironmentVariables(config);
+    const databases = getDatabaseConfigs(config);
+    const envVarsChanged = JSON.stringify(envVars) !== JSON.stringify(this.envVars);
+
+    const changes: DatabaseChanges = {
+      added: Object.keys(databases).filter(name => !this.databases[name]),
+      removed: Object.keys(this.databases).filter(name => !databases[name]),
+      changed: Object.keys(databases).filter(
+        name =>
+          this.databases[name] &&
+          (envVarsChanged || JSON.stringify(this.databases[name]) !== JSON.stringify(databases[name]))
+      ),
+    };
+
+    this.envVars = envVars;
+    this.databases = databases;
+    if (!databases[this.currentDatabase]) {
+      this.currentDatabase = Object.keys(databases)[0];
+    }
+
+    for (const name of [...changes.removed, ...changes.changed]) {
+      this.closeConnections(name).catch(error => {
+        console.error(`Failed to close pool for database '${name}':`, error);
+      });
+    }
+
+    return changes;
+  }
+
   getCurrentDatabase(): string {
     return this.currentDatabase;
   }
@@ -25,6 +106,14 @@ export class DatabaseManager {
     return this.databases;
   }
 
+  getDatabaseConfig(databaseName: string = this.currentDatabase): DatabaseConfig {
+    return this.databases[databaseName];
+  }
+
+  getAccessLevel(databaseName: string = this.currentDatabase): AccessLevel {
+    return getAccessLevel(this.databases[databaseName]);
+  }
+
   switchDatabase(databaseName: string): void {
     if (!this.databases[databaseName]) {
       throw new Error(`Database configuration '${databaseName}' not found`);
@@ -32,58 +121,206 @@ export class DatabaseManager {
     this.currentDatabase = databaseName;
   }
 
-  createConnection(): Client {
-    const dbConfig = this.databases[this.currentDatabase];
-    const connectionString = buildConnectionString(dbConfig, this.envVars);
+  async getPool(databaseName: string = this.currentDatabase): Promise<Pool> {
+    const existing = this.pools[databaseName];
+    if (existing) {
+      return existing;
+    }
 
-    const clientConfig: any = {
-      connectionString,
-      connectionTimeoutMillis: 10000,
-    };
+    const dbConfig = this.databases[databaseName];
+    if (!dbConfig) {
+      throw new Error(`Database configuration '${databaseName}' not found`);
+    }
 
-    if (dbConfig.ssl) {
-      clientConfig.ssl = {
-        rejectUnauthorized: false,
-      };
+    const clientConfig = await this.getClientConfig(databaseName);
+    // Another call may have created the pool while the SSH tunnel was opening
+    if (this.pools[databaseName]) {
+      return this.pools[databaseName];
     }
 
-    return new Client(clientConfig);
+    const poolConfig: PoolConfig = {
+      ...clientConfig,
+      max: dbConfig.poolSize || DEFAULT_POOL_SIZE,
+      idleTimeoutMillis: 30000,
+    };
+
+    const pool = new Pool(poolConfig);
+
+    // An idle client losing its connection must not crash the server
+    pool.on('error', error => {
+      console.error(`Idle client error on database '${databaseName}':`, error);
+    });
+
+    this.pools[databaseName] = pool;
+    return pool;
   }
 
-  getCurrentPool(): Pool {
-    const dbConfig = this.databases[this.currentDatabase];
-    const connectionString = buildConnectionString(dbConfig, this.envVars);
+  private async getClientConfig(databaseName: string): Promise<ClientConfig> {
+    const dbConfig = this.databases[databaseName];
 
-    const poolConfig: any = {
-      connectionString,
-      max: 1,
+    const clientConfig: ClientConfig = {
       connectionTimeoutMillis: 10000,
-      idleTimeoutMillis: 30000,
     };
 
-    if (dbConfig.ssl) {
-      poolConfig.ssl = {
-        rejectUnauthorized: false,
+    let ssl = dbConfig.ssl;
+
+    // Connection strings are parsed into discrete fields, since pg lets a connection string's password
+    // override the resolver
+    if (dbConfig.connectionString) {
+      const parsed = extractSslParameters(await buildConnectionString(dbConfig, this.envVars));
+      const { password, ...fields } = parseIntoClientConfig(parsed.connectionString);
+      Object.assign(clientConfig, fields);
+      ssl = ssl ?? parsed.ssl;
+
+      if (password) {
+        clientConfig.password = async () => {
+          const { connectionString } = extractSslParameters(await buildConnectionString(dbConfig, this.envVars));
+          const resolved = parseIntoClientConfig(connectionString).password;
+          return typeof resolved === 'string' ? resolved : '';
+        };
+      }
+    } else {
+      const { host, port, database, username } = await resolveConnectionFields(dbConfig, this.envVars);
+      Object.assign(clientConfig, { host, port, database, user: username || undefined });
+
+      if (dbConfig.password) {
+        clientConfig.password = () => resolvePassword(dbConfig, this.envVars);
+      }
+    }
+
+    const sslOptions = buildSslOptions(ssl);
+    if (sslOptions !== undefined) {
+      clientConfig.ssl = sslOptions;
+    }
+
+    if (dbConfig.sshTunnel) {
+      await this.routeThroughTunnel(databaseName, clientConfig);
+    }
+
+    return clientConfig;
+  }
+
+  // Points the client at the local end of the database's SSH tunnel, opening the tunnel on first use
+  private async routeThroughTunnel(databaseName: string, clientConfig: ClientConfig): Promise<void> {
+    const target: TunnelTarget = { host: clientConfig.host || 'localhost', port: clientConfig.port || 5432 };
+
+    if (!this.tunnels[databaseName]) {
+      const tunnelConfig = this.databases[databaseName].sshTunnel!;
+      const substitute = async (value?: string) => (value ? substituteVariables(value, this.envVars) : value);
+      const resolved = {
+        ...tunnelConfig,
+        host: await substituteVariables(tunnelConfig.host, this.envVars),
+        username: await substituteVariables(tunnelConfig.username, this.envVars),
+        privateKey: await substitute(tunnelConfig.privateKey),
+        passphrase: await substitute(tunnelConfig.passphrase),
       };
+
+      // Another connection may have opened the tunnel while the secrets were being resolved
+      this.tunnels[databaseName] ??= new SshTunnel(resolved, target);
+    }
+    const localPort = await this.tunnels[databaseName].open();
+
+    clientConfig.host = '127.0.0.1';
+    clientConfig.port = localPort;
+
+    // Certificates are issued for the database host, not for the tunnel's local end
+    if (typeof clientConfig.ssl === 'object' && !clientConfig.ssl.servername && isIP(target.host) === 0) {
+      clientConfig.ssl.servername = target.host;
+    }
+  }
+
+  // Ends the database's pool, then the SSH tunnel its connections ran through
+  private async closeConnections(databaseName: string): Promise<void> {
+    const pool = this.pools[databaseName];
+    const tunnel = this.tunnels[databaseName];
+    delete this.pools[databaseName];
+    delete this.tunnels[databaseName];
+
+    try {
+      await pool?.end();
+    } finally {
+      tunnel?.close();
     }
+  }
 
-    return new Pool(poolConfig);
+  getCurrentPool(): Promise<Pool> {
+    return this.getPool(this.currentDatabase);
   }
 
   getPools(): Record<string, Pool> {
-    return {};
+    return this.pools;
+  }
+
+  getPoolStats(): PoolStats[] {
+    return Object.entries(this.pools).map(([database, pool]) => ({
+      database,
+      max: this.databases[database]?.poolSize || DEFAULT_POOL_SIZE,
+      totalCount: pool.totalCount,
+      idleCount: pool.idleCount,
+      waitingCount: pool.waitingCount,
+    }));
   }
 
   async closeAll(): Promise<void> {
-    return Promise.resolve();
+    const names = new Set([...Object.keys(this.pools), ...Object.keys(this.tunnels)]);
+    await Promise.all([...names].map(name => this.closeConnections(name)));
   }
 
-  async executeWithConnection<T>(operation: (client: Client) => Promise<T>): Promise<T> {
-    const client = this.createConnection();
+  async executeWithConnection<T>(
+    operation: (client: PoolClient) => Promise<T>,
+    options: ExecutionOptions = {}
+  ): Promise<T> {
+    const databaseName = options.database ?? this.currentDatabase;
+    const pool = await this.getPool(databaseName);
+    const client = await pool.connect();
+
+    // pg does not type the backend process id it receives during startup
+    const { processID } = client as PoolClient & { processID: number };
+    const onAbort = () => {
+      this.cancelBackend(databaseName, processID).catch(error => {
+        console.error(`Failed to cancel backend ${processID} on database '${databaseName}':`, error);
+      });
+    };
 
     try {
-      await client.connect();
+      options.signal?.throwIfAborted();
+      options.signal?.addEventListener('abort', onAbort, { once: true });
       return await operation(client);
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      // Connections left in a transaction or in an unknown state are discarded, and so are those of aborted calls,
+      // since a cancel may still be on its way and must not reach the next call using the connection
+      client.release(options.signal?.aborted || client.getTransactionStatus() !== 'I');
+    }
+  }
+
+  // Applies statement and lock timeouts to the open transaction; per-call values only shorten the configured ones
+  async applyTimeouts(client: PoolClient, options: ExecutionOptions = {}): Promise<void> {
+    const dbConfig = this.databases[options.database ?? this.currentDatabase];
+    const statementTimeout = limitTimeout(options.statementTimeout, dbConfig.statementTimeout);
+    const lockTimeout = limitTimeout(options.lockTimeout, dbConfig.lockTimeout);
+
+    for (const [setting, value] of [
+      ['statement_timeout', statementTimeout],
+      ['lock_timeout', lockTimeout],
+    ] as const) {
+      if (value === undefined) {
+        continue;
+      }
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid ${setting} '${value}'. Expected a non-negative integer number of milliseconds`);
+      }
+      await client.query(`SET LOCAL ${setting} = ${value}`);
+    }
+  }
+
+  // Cancellation has to go through a separate connection, since the pooled one is busy running the statement
+  private async cancelBackend(databaseName: string, processID: number): Promise<void> {
+    const client = new Client(await this.getClientConfig(databaseName));
+
+    try {
+      await client.connect();
+      await client.query('SELECT pg_cancel_backend($1)', [processID]);
     } finally {
       await client.end();
     }
@@ -0,0 +1,240 @@
+import { ClientBase } from 'pg';
+
+import { quoteIdentifier, quoteLiteral, quoteQualifiedName, splitQualifiedName } from './sql.js';
+
+export const OBJECT_TYPES = [
+  'table',
+  'view',
+  'materialized view',
+  'index',
+  'sequence',
+  'type',
+  'schema',
+  'extension',
+  'function',
+  'trigger',
+] as const;
+
+export type ObjectType = (typeof OBJECT_TYPES)[number];
+
+// Extensions cannot be renamed
+export const RENAMABLE_OBJECT_TYPES = OBJECT_TYPES.filter(type => type !== 'extension');
+
+// ALTER ... IF EXISTS ... RENAME TO is only available for relations
+const RENAME_IF_EXISTS_TYPES: ObjectType[] = ['table', 'view', 'materialized view', 'index', 'sequence'];
+
+export interface ObjectReference {
+  type: ObjectType;
+  name: string;
+  // The table a trigger is defined on
+  table?: string;
+  // Argument types of a function, to choose between overloads
+  arguments?: string;
+}
+
+// Row of pg_depend's classid and objid columns
+export interface ObjectId {
+  classid: number;
+  objid: number;
+}
+
+export interface DependentObject {
+  type: string;
+  schema: string | null;
+  identity: string;
+}
+
+// Schemas and extensions have unqualified names, and triggers are named together with their table
+export const formatObjectName = ({ type, name, table, arguments: args }: ObjectReference): string => {
+  switch (type) {
+    case 'schema':
+    case 'extension':
+      return quoteIdentifier(name);
+    case 'trigger':
+      if (!table) {
+        throw new Error('table is required for triggers');
+      }
+      return `${quoteIdentifier(name)} ON ${quoteQualifiedName(table)}`;
+    case 'function':
+      return args === undefined ? quoteQualifiedName(name) : `${quoteQualifiedName(name)}(${args})`;
+    default:
+      return quoteQualifiedName(name);
+  }
+};
+
+export const buildDropStatement = (object: ObjectReference, ifExists = false, cascade = false): string => {
+  const ifExistsClause = ifExists ? 'IF EXISTS ' : '';
+  return `DROP ${object.type.toUpperCase()} ${ifExistsClause}${formatObjectName(object)}${cascade ? ' CASCADE' : ''}`;
+};
+
+export const buildRenameStatement = (object: ObjectReference, newName: string, ifExists = false): string => {
+  if (object.type === 'extension') {
+    throw new Error('Extensions cannot be renamed');
+  }
+  if (ifExists && !RENAME_IF_EXISTS_TYPES.includes(object.type)) {
+    throw new Error(`ifExists is not supported when renaming a ${object.type}`);
+  }
+
+  const ifExistsClause = ifExists ? 'IF EXISTS ' : '';
+  const target = `${ifExistsClause}${formatObjectName(object)}`;
+  return `ALTER ${object.type.toUpperCase()} ${target} RENAME TO ${quoteIdentifier(newName)}`;
+};
+
+// The same object after a rename, which keeps its schema (or its table, for a trigger)
+export const renamedObject = (object: ObjectReference, newName: string): ObjectReference => {
+  if (object.type === 'schema' || object.type === 'trigger') {
+    return { ...object, name: newName };
+  }
+
+  const parts = splitQualifiedName(object.name).slice(0, -1);
+  return { ...object, name: [...parts, newName].map(quoteIdentifier).join('.') };
+};
+
+// Looks up the catalog entry of an object, or returns null when it does not exist
+export const resolveObject = async (client: ClientBase, object: ObjectReference): Promise<ObjectId | null> => {
+  let result;
+  switch (object.type) {
+    case 'schema':
+      result = await client.query(
+        `SELECT 'pg_namespace'::regclass::oid AS classid, to_regnamespace($1)::oid AS objid`,
+        [quoteIdentifier(object.name)]
+      );
+      break;
+    case 'extension':
+      result = await client.query(
+        `SELECT 'pg_extension'::regclass::oid AS classid, oid AS objid FROM pg_extension WHERE extname = $1`,
+        [object.name]
+      );
+      break;
+    case 'type':
+      result = await client.query(`SELECT 'pg_type'::regclass::oid AS classid, to_regtype($1)::oid AS objid`, [
+        quoteQualifiedName(object.name),
+      ]);
+      break;
+    case 'function':
+      result = await client.query(
+        object.arguments === undefined
+          ? `SELECT 'pg_proc'::regclass::oid AS classid, to_regproc($1)::oid AS objid`
+          : `SELECT 'pg_proc'::regclass::oid AS classid, to_regprocedure($1)::oid AS objid`,
+        [formatObjectName(object)]
+      );
+      break;
+    case 'trigger':
+      result = await client.query(
+        `SELECT 'pg_trigger'::regclass::oid AS classid, oid AS objid
+         FROM pg_trigger
+         WHERE tgname = $1 AND tgrelid = to_regclass($2)`,
+        [object.name, quoteQualifiedName(object.table || '')]
+      );
+      break;
+    default:
+      result = await client.query(`SELECT 'pg_class'::regclass::oid AS classid, to_regclass($1)::oid AS objid`, [
+        quoteQualifiedName(object.name),
+      ]);
+  }
+
+  const [row] = result.rows;
+  return row?.objid ? { classid: Number(row.classid), objid: Number(row.objid) } : null;
+};
+
+// Objects a DROP ... CASCADE would also drop. Dependencies are followed transitively; an object that is part of
+// another one, such as a view's rewrite rule or an extension's functions, is reported as its owner. Objects that
+// only depend automatically on an object being dropped, such as a table's own indexes and constraints, go along
+// with it and are not reported separately.
+export const listDependentObjects = async (client: ClientBase, id: ObjectId): Promise<DependentObject[]> => {
+  const result = await client.query(
+    `WITH RECURSIVE dependents(classid, objid, objsubid, reported) AS (
+       SELECT $1::oid, $2::oid, 0, false
+       UNION
+       SELECT coalesce(owner.refclassid, d.classid), coalesce(owner.refobjid, d.objid),
+         CASE WHEN owner.refobjid IS NULL THEN d.objsubid ELSE 0 END,
+         d.deptype = 'n'
+       FROM dependents p
+       JOIN pg_depend d ON d.refclassid = p.classid AND d.refobjid = p.objid
+       LEFT JOIN LATERAL (
+         SELECT i.refclassid, i.refobjid
+         FROM pg_depend i
+         WHERE i.classid = d.classid AND i.objid = d.objid AND i.deptype IN ('i', 'e')
+         LIMIT 1
+       ) owner ON true
+       WHERE d.deptype IN ('n', 'a', 'i', 'e')
+     )
+     SELECT DISTINCT o.type, o.schema, o.identity
+     FROM dependents d
+     CROSS JOIN pg_identify_object(d.classid, d.objid, d.objsubid) o
+     WHERE d.reported AND NOT (d.classid = $1 AND d.objid = $2)
+     ORDER BY o.type, o.identity`,
+    [id.classid, id.objid]
+  );
+
+  return result.rows;
+};
+
+// SQL that recreates the object as it is now, or undefined for objects it cannot be derived for, such as tables
+export const getObjectDefinition = async (
+  client: ClientBase,
+  object: ObjectReference,
+  id: ObjectId
+): Promise<string | undefined> => {
+  const name = formatObjectName(object);
+  const single = async (sql: string): Promise<any> => (await client.query(sql, [id.objid])).rows[0];
+
+  switch (object.type) {
+    case 'view':
+    case 'materialized view': {
+      const { definition } = await single('SELECT pg_get_viewdef($1::oid, true) AS definition');
+      const create = object.type === 'view' ? 'CREATE OR REPLACE VIEW' : 'CREATE MATERIALIZED VIEW';
+      return `${create} ${name} AS\n${definition.trim().replace(/;$/, '')}`;
+    }
+    case 'index':
+      return (await single('SELECT pg_get_indexdef($1::oid) AS definition')).definition;
+    case 'function':
+      return `${(await single('SELECT pg_get_functiondef($1::oid) AS definition')).definition};`;
+    case 'trigger':
+      return (await single('SELECT pg_get_triggerdef($1::oid) AS definition')).definition;
+    case 'schema':
+      return `CREATE SCHEMA ${name}`;
+    case 'extension': {
+      const { schema, version } = await single(
+        `SELECT n.nspname AS schema, e.extversion AS version
+         FROM pg_extension e
+         JOIN pg_namespace n ON n.oid = e.extnamespace
+         WHERE e.oid = $1`
+      );
+      return `CREATE EXTENSION ${name} WITH SCHEMA ${quoteIdentifier(schema)} VERSION ${quoteLiteral(version)}`;
+    }
+    case 'sequence': {
+      const sequence = await single(
+        `SELECT format_type(seqtypid, NULL) AS type, seqstart AS start, seqincrement AS increment, seqmin AS min,
+           seqmax AS max, seqcache AS cache, seqcycle AS cycle
+         FROM pg_sequence
+         WHERE seqrelid = $1`
+      );
+      return (
+        `CREATE SEQUENCE ${name} AS ${sequence.type} INCREMENT BY ${sequence.increment} ` +
+        `MINVALUE ${sequence.min} MAXVALUE ${sequence.max} START WITH ${sequence.start} CACHE ${sequence.cache}` +
+        (sequence.cycle ? ' CYCLE' : ' NO CYCLE')
+      );
+    }
+    case 'type': {
+      const { kind, values, attributes } = await single(
+        `SELECT t.typtype AS kind,
+           ARRAY(SELECT e.enumlabel::text FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder) AS values,
+           ARRAY(
+             SELECT quote_ident(a.attname) || ' ' || format_type(a.atttypid, a.atttypmod)
+             FROM pg_attribute a
+             WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+             ORDER BY a.attnum
+           ) AS attributes
+         FROM pg_type t
+         WHERE t.oid = $1`
+      );
+      if (kind === 'e') {
+        return `CREATE TYPE ${name} AS ENUM (${values.map(quoteLiteral).join(', ')})`;
+      }
+      return kind === 'c' ? `CREATE TYPE ${name} AS (${attributes.join(', ')})` : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
@@ -11,6 +11,118 @@ export interface DatabaseErrorContext {
   [key: string]: any;
 }
 
+export type ErrorCategory =
+  | 'syntax'
+  | 'constraint violation'
+  | 'permission'
+  | 'connection'
+  | 'timeout'
+  | 'data'
+  | 'transaction'
+  | 'resources'
+  | 'other';
+
+export interface PostgresErrorDetails {
+  code?: string;
+  category?: ErrorCategory;
+  detail?: string;
+  hint?: string;
+  position?: number;
+  schema?: string;
+  table?: string;
+  column?: string;
+  dataType?: string;
+  constraint?: string;
+  where?: string;
+  excerpt?: string;
+}
+
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EHOSTUNREACH', 'ETIMEDOUT', 'EPIPE'];
+
+// Maps a SQLSTATE (or Node.js socket error code) to a broad category a model can act on
+export const getErrorCategory = (code: string): ErrorCategory => {
+  if (CONNECTION_ERROR_CODES.includes(code)) {
+    return 'connection';
+  }
+
+  switch (code) {
+    case '42501':
+    case '25006':
+      return 'permission';
+    case '57014':
+    case '55P03':
+      return 'timeout';
+    case '57P01':
+    case '57P02':
+    case '57P03':
+      return 'connection';
+  }
+
+  switch (code.slice(0, 2)) {
+    case '42':
+      return 'syntax';
+    case '23':
+      return 'constraint violation';
+    case '28':
+      return 'permission';
+    case '08':
+      return 'connection';
+    case '22':
+      return 'data';
+    case '40':
+      return 'transaction';
+    case '53':
+      return 'resources';
+    default:
+      return 'other';
+  }
+};
+
+// Renders the line of `sql` containing the 1-based `position` with a caret underneath it
+export const renderErrorPosition = (sql: string, position: number): string => {
+  const index = Math.min(Math.max(position - 1, 0), sql.length);
+  const lineStart = sql.lastIndexOf('\n', index - 1) + 1;
+  const lineEnd = sql.indexOf('\n', index);
+  const line = sql.slice(lineStart, lineEnd === -1 ? sql.length : lineEnd);
+  const lineNumber = sql.slice(0, lineStart).split('\n').length;
+  const prefix = `LINE ${lineNumber}: `;
+
+  return `${prefix}${line}\n${' '.repeat(prefix.length + index - lineStart)}^`;
+};
+
+export const extractPostgresErrorDetails = (error: Error | unknown, sql?: string): PostgresErrorDetails => {
+  if (!(error instanceof Error)) {
+    return {};
+  }
+
+  // pg's DatabaseError carries the fields of the server's ErrorResponse message
+  const pgError = error as Error & Record<string, any>;
+  const details: PostgresErrorDetails = {
+    code: pgError.code,
+    category: typeof pgError.code === 'string' ? getErrorCategory(pgError.code) : undefined,
+    detail: pgError.detail,
+    hint: pgError.hint,
+    position: pgError.position ? Number(pgError.position) : undefined,
+    schema: pgError.schema,
+    table: pgError.table,
+    column: pgError.column,
+    dataType: pgError.dataType,
+    constraint: pgError.constraint,
+    where: pgError.where,
+  };
+
+  // Raised by the extended protocol, which user-supplied SQL is sent through
+  if (pgError.code === '42601' && /multiple commands/.test(pgError.message)) {
+    details.hint = 'Only a single SQL statement can be run per call';
+  }
+
+  if (details.position && sql) {
+    details.excerpt = renderErrorPosition(sql, details.position);
+  }
+
+  return details;
+};
+
 export const createErrorResponse = (error: Error | unknown, context: DatabaseErrorContext = {}): CallToolResult => {
   const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -21,6 +133,7 @@ export const createErrorResponse = (error: Error | unknown, context: DatabaseErr
         text: JSON.stringify(
           {
             error: errorMessage,
+            ...extractPostgresErrorDetails(error, context.sql),
             ...context,
           },
           null,
@@ -71,3 +184,32 @@ export const createTableOperationErrorResponse = (
 ): CallToolResult => {
   return createErrorResponse(error, { tableName, operation });
 };
+
+export const createObjectErrorResponse = (
+  error: Error | unknown,
+  objectType: string,
+  objectName: string,
+  context: DatabaseErrorContext = {}
+): CallToolResult => {
+  return createErrorResponse(error, { objectType, objectName, ...context });
+};
+
+export const createMigrationErrorResponse = (
+  error: Error | unknown,
+  migration?: string,
+  sql?: string
+): CallToolResult => {
+  return createErrorResponse(error, { migration, sql });
+};
+
+export const createAccessDeniedErrorResponse = (
+  toolName: string,
+  database: string,
+  access: string,
+  requiredAccess: string
+): CallToolResult => {
+  return createErrorResponse(
+    new Error(`Tool '${toolName}' requires ${requiredAccess} access, but database '${database}' is ${access}`),
+    { tool: toolName, database, access, requiredAccess }
+  );
+};
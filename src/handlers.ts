@@ -1,18 +1,155 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { CallToolRequest, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { join } from 'path';
+import { PoolClient, QueryResult } from 'pg';
 
-import { Config } from './config.js';
-import { DatabaseManager } from './database.js';
+import { getRequiredAccessLevel, isCommandAllowed, isToolAllowed } from './access.js';
+import { ApprovalManager, DEFAULT_APPROVAL_TIMEOUT } from './approvals.js';
+import { AuditLogger, ToolCallRecord } from './audit.js';
+import { getFunctionDefinitions, getPrimaryKeyColumns, getRelationRowEstimates } from './catalog.js';
+import { Config, MigrationsConfig } from './config.js';
+import { buildComparisonQuery, diffRows } from './dataDiff.js';
+import { DatabaseManager, ExecutionOptions } from './database.js';
 import {
-    createFunctionErrorResponse, createIndexErrorResponse, createQueryErrorResponse, createTableErrorResponse,
-    createTableOperationErrorResponse, createTriggerErrorResponse
+    buildDropStatement, buildRenameStatement, DependentObject, getObjectDefinition, listDependentObjects,
+    OBJECT_TYPES, ObjectReference, ObjectType, renamedObject, resolveObject
+} from './ddl.js';
+import {
+    createAccessDeniedErrorResponse, createErrorResponse, createFunctionErrorResponse, createIndexErrorResponse,
+    createMigrationErrorResponse, createObjectErrorResponse, createQueryErrorResponse, createTableErrorResponse,
+    createTableOperationErrorResponse, createTriggerErrorResponse, extractPostgresErrorDetails, PostgresErrorDetails
 } from './errorHandling.js';
+import {
+    DEFAULT_HEALTH_REPORT_LIMIT, DEFAULT_LONG_RUNNING_THRESHOLD, getSession, HEALTH_CHECKS, HealthCheck, listLockChains,
+    listSessions, runHealthChecks
+} from './health.js';
+import {
+    findDuplicateIndexes, findUnusedIndexes, isHypopgInstalled, loadSelectiveColumns, loadStatsResetTime,
+    loadTableScanStats, loadTopStatements, proposeIndexes, validateCandidates
+} from './indexAdvisor.js';
+import {
+    checkTransactionControl, compareVersions, DEFAULT_MIGRATIONS_TABLE, describeMigrations, hasStatements,
+    loadAppliedMigrations, lockMigrationsTable, Migration, readMigrations, recordMigration, removeMigration,
+    revertAlterTable, writeMigration
+} from './migrations.js';
+import {
+    decodeCursor, DEFAULT_MAX_RESULT_BYTES, DEFAULT_MAX_ROWS, describeFields, encodeCursor, truncateRows
+} from './pagination.js';
+import { buildExplainStatement, ExplainOptions, findHotSpots, listScannedRelations, PlanNode } from './queryPlan.js';
+import { diffSchemas, generateSchemaDdl, loadSchemaSnapshot } from './schemaDiff.js';
+import {
+    buildWhereClause, isTautologicalWhere, quoteIdentifier, quoteLiteral, quoteQualifiedName, singleStatement,
+    splitQualifiedName, stripComments, WhereInput
+} from './sql.js';
+
+// Number of affected rows echoed back from a dry run
+const DRY_RUN_SAMPLE_SIZE = 10;
+// Statements a plain EXPLAIN plans without running them
+const EXPLAINABLE_STATEMENT = /^[\s(]*(SELECT|INSERT|UPDATE|DELETE|MERGE|VALUES|WITH|TABLE)\b/i;
+
+interface DefinitionResult {
+  sql: string;
+  dryRun: boolean;
+  wouldSucceed: boolean;
+  error?: string;
+  errorDetails?: PostgresErrorDetails;
+}
+
+interface SequenceOptions {
+  dataType?: string;
+  start?: number | string;
+  increment?: number | string;
+  minValue?: number | string;
+  maxValue?: number | string;
+  cache?: number | string;
+  cycle?: boolean;
+  ownedBy?: string;
+}
+
+// A schema change as a migration. `down` is either the SQL that reverts it, or a callback that runs the up SQL
+// itself, so it can compare the schema before and after, and returns the SQL that reverts it.
+interface DefinitionMigration {
+  description: string;
+  up: string;
+  down: string | ((client: PoolClient, applyUp: () => Promise<unknown>) => Promise<string>);
+}
 
 export class ToolHandlers {
-  constructor(private dbManager: DatabaseManager, private config: Config) {}
+  private approvals = new ApprovalManager();
+
+  constructor(private dbManager: DatabaseManager, private config: Config, private auditLogger: AuditLogger) {}
+
+  updateConfig(config: Config): void {
+    this.config = config;
+  }
 
-  async handleToolCall(request: CallToolRequest): Promise<CallToolResult> {
+  async handleToolCall(request: CallToolRequest, extra?: RequestHandlerExtra): Promise<CallToolResult> {
     const { name, arguments: args } = request.params;
 
+    // switchDatabase uses `database` as its target; every other tool treats it as a per-call override
+    const database =
+      name !== 'switchDatabase' && args?.database ? (args.database as string) : this.dbManager.getCurrentDatabase();
+    const call: ToolCallRecord = { tool: name, environment: database, arguments: args, sql: [], startedAt: Date.now() };
+
+    // An approval is recorded as the operation it runs, against the database it runs on
+    const operation = name === 'approveOperation' ? this.approvals.get(args?.operationId as string) : undefined;
+    if (operation) {
+      Object.assign(call, {
+        tool: operation.tool,
+        environment: operation.database,
+        arguments: operation.arguments,
+        operationId: operation.id,
+      });
+    }
+
+    try {
+      const result = await this.executeToolCall(name, args, database, call, extra);
+      await this.auditLogger.record(this.auditLogger.createEntry(call, result));
+      return result;
+    } catch (error) {
+      await this.auditLogger.record(
+        this.auditLogger.createEntry(call, error instanceof Error ? error : new Error(String(error)))
+      );
+      throw error;
+    }
+  }
+
+  private async executeToolCall(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    database: string,
+    call: ToolCallRecord,
+    extra?: RequestHandlerExtra
+  ): Promise<CallToolResult> {
+    if (!this.dbManager.getDatabases()[database]) {
+      return createErrorResponse(new Error(`Database configuration '${database}' not found`), { database });
+    }
+
+    const access = this.dbManager.getAccessLevel(database);
+    if (!isToolAllowed(name, access)) {
+      return createAccessDeniedErrorResponse(name, database, access, getRequiredAccessLevel(name));
+    }
+
+    const options: ExecutionOptions = {
+      database,
+      signal: extra?.signal,
+      statementTimeout: args?.timeout as number,
+      statements: call.sql,
+    };
+
+    call.pending = this.requiresApproval(name, args, database);
+    const result = call.pending
+      ? await this.createPendingOperation(name, args, options, call)
+      : await this.dispatchToolCall(name, args, options);
+
+    return this.withDatabase(result, name === 'switchDatabase' ? this.dbManager.getCurrentDatabase() : database);
+  }
+
+  private async dispatchToolCall(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    options: ExecutionOptions
+  ): Promise<CallToolResult> {
     switch (name) {
       case 'switchDatabase':
         return this.handleSwitchDatabase(args?.database as string);
@@ -20,61 +157,271 @@ export class ToolHandlers {
       case 'listDatabases':
         return this.handleListDatabases();
 
+      case 'getPoolStats':
+        return this.handleGetPoolStats();
+
+      case 'approveOperation':
+        return this.handleApproveOperation(options, args?.operationId as string);
+
+      case 'rejectOperation':
+        return this.handleRejectOperation(args?.operationId as string);
+
+      case 'getAuditLog':
+        return this.handleGetAuditLog(args?.limit as number, args?.environment as string, args?.tool as string);
+
       case 'query':
-        return this.handleQuery(args?.sql as string);
+        return this.handleQuery(
+          options,
+          args?.sql as string,
+          args?.limit as number,
+          args?.offset as number,
+          args?.cursor as string
+        );
+
+      case 'explainQuery':
+        return this.handleExplainQuery(options, args?.sql as string, {
+          analyze: args?.analyze as boolean,
+          buffers: args?.buffers as boolean,
+          verbose: args?.verbose as boolean,
+        });
+
+      case 'suggestIndexes':
+        return this.handleSuggestIndexes(
+          options,
+          args?.schemas as string[],
+          args?.table as string,
+          args?.sql as string,
+          args?.limit as number
+        );
+
+      case 'getActivity':
+        return this.handleGetActivity(options, args?.includeIdle as boolean, args?.longRunningThreshold as number);
+
+      case 'getLocks':
+        return this.handleGetLocks(options);
+
+      case 'getHealthReport':
+        return this.handleGetHealthReport(options, args?.checks as HealthCheck[], args?.limit as number);
+
+      case 'compareSchemas':
+        return this.handleCompareSchemas(
+          options,
+          args?.source as string,
+          args?.target as string,
+          args?.schemas as string[],
+          args?.includeDdl as boolean
+        );
+
+      case 'compareData':
+        return this.handleCompareData(
+          options,
+          args?.source as string,
+          args?.target as string,
+          args?.sql as string,
+          args?.table as string,
+          args?.keyColumns as string[],
+          args?.limit as number,
+          args?.hash as boolean
+        );
 
       case 'execute':
-        return this.handleExecute(args?.sql as string);
+        return this.handleExecute(options, args?.sql as string, args?.dryRun as boolean);
 
       case 'insert':
-        return this.handleInsert(args?.table as string, args?.data as Record<string, any>);
+        return this.handleInsert(
+          options,
+          args?.table as string,
+          args?.data as Record<string, any>,
+          args?.dryRun as boolean
+        );
 
       case 'update':
-        return this.handleUpdate(args?.table as string, args?.data as Record<string, any>, args?.where as string);
+        return this.handleUpdate(
+          options,
+          args?.table as string,
+          args?.data as Record<string, any>,
+          args?.where as WhereInput,
+          args?.dryRun as boolean,
+          args?.confirm as boolean
+        );
 
       case 'delete':
-        return this.handleDelete(args?.table as string, args?.where as string);
+        return this.handleDelete(
+          options,
+          args?.table as string,
+          args?.where as WhereInput,
+          args?.dryRun as boolean,
+          args?.confirm as boolean
+        );
+
+      case 'terminateBackend':
+        return this.handleTerminateBackend(
+          options,
+          args?.pid as number,
+          args?.cancelOnly as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'createView':
+        return this.handleCreateView(
+          options,
+          args?.name as string,
+          args?.query as string,
+          args?.materialized as boolean,
+          args?.orReplace as boolean,
+          args?.ifNotExists as boolean,
+          args?.withData as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'refreshMaterializedView':
+        return this.handleRefreshMaterializedView(
+          options,
+          args?.name as string,
+          args?.concurrently as boolean,
+          args?.withData as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'createType':
+        return this.handleCreateType(
+          options,
+          args?.name as string,
+          args?.values as string[],
+          args?.attributes as Array<{ name: string; type: string }>,
+          args?.dryRun as boolean
+        );
+
+      case 'createSequence':
+        return this.handleCreateSequence(
+          options,
+          args?.name as string,
+          {
+            dataType: args?.dataType as string,
+            start: args?.start as number,
+            increment: args?.increment as number,
+            minValue: args?.minValue as number,
+            maxValue: args?.maxValue as number,
+            cache: args?.cache as number,
+            cycle: args?.cycle as boolean,
+            ownedBy: args?.ownedBy as string,
+          },
+          args?.ifNotExists as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'createSchema':
+        return this.handleCreateSchema(
+          options,
+          args?.name as string,
+          args?.authorization as string,
+          args?.ifNotExists as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'createExtension':
+        return this.handleCreateExtension(
+          options,
+          args?.name as string,
+          args?.schema as string,
+          args?.version as string,
+          args?.ifNotExists as boolean,
+          args?.cascade as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'dropObject':
+        return this.handleDropObject(
+          options,
+          {
+            type: args?.objectType as ObjectType,
+            name: args?.name as string,
+            table: args?.table as string,
+            arguments: args?.arguments as string,
+          },
+          args?.ifExists as boolean,
+          args?.cascade as boolean,
+          args?.confirm as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'renameObject':
+        return this.handleRenameObject(
+          options,
+          {
+            type: args?.objectType as ObjectType,
+            name: args?.name as string,
+            table: args?.table as string,
+            arguments: args?.arguments as string,
+          },
+          args?.newName as string,
+          args?.ifExists as boolean,
+          args?.dryRun as boolean
+        );
+
+      case 'migrationStatus':
+        return this.handleMigrationStatus(options);
+
+      case 'applyMigrations':
+        return this.handleApplyMigrations(options, args?.version as string, args?.dryRun as boolean);
+
+      case 'rollbackMigration':
+        return this.handleRollbackMigration(options, args?.version as string, args?.dryRun as boolean);
 
       case 'createTable':
         return this.handleCreateTable(
+          options,
           args?.tableName as string,
           args?.columns as Array<{ name: string; type: string; constraints?: string }>,
-          args?.constraints as Array<string>
+          args?.constraints as Array<string>,
+          args?.dryRun as boolean
         );
 
       case 'createFunction':
         return this.handleCreateFunction(
+          options,
           args?.name as string,
           args?.parameters as string,
           args?.returnType as string,
           args?.language as string,
           args?.body as string,
-          args?.options as string
+          args?.options as string,
+          args?.dryRun as boolean
         );
 
       case 'createTrigger':
         return this.handleCreateTrigger(
+          options,
           args?.name as string,
           args?.tableName as string,
           args?.functionName as string,
           args?.when as string,
           args?.events as string[],
           args?.forEach as string,
-          args?.condition as string
+          args?.condition as string,
+          args?.dryRun as boolean
         );
 
       case 'createIndex':
         return this.handleCreateIndex(
+          options,
           args?.tableName as string,
           args?.indexName as string,
           args?.columns as string[],
           args?.unique as boolean,
           args?.type as string,
-          args?.where as string
+          args?.where as string,
+          args?.dryRun as boolean
         );
 
       case 'alterTable':
-        return this.handleAlterTable(args?.tableName as string, args?.operation as string, args?.details as string);
+        return this.handleAlterTable(
+          options,
+          args?.tableName as string,
+          args?.operation as string,
+          args?.details as string,
+          args?.dryRun as boolean
+        );
 
       default:
         throw new Error(`Unknown tool: ${name}`);
@@ -114,6 +461,7 @@ export class ToolHandlers {
           type: env.database.type,
           host: env.database.host,
           database: env.database.database,
+          access: this.dbManager.getAccessLevel(env.name),
           current: env.name === currentDatabase,
         }))
       : Object.entries(databases).map(([name, dbConfig]) => ({
@@ -121,6 +469,7 @@ export class ToolHandlers {
           type: dbConfig.type,
           host: dbConfig.host,
           database: dbConfig.database,
+          access: this.dbManager.getAccessLevel(name),
           current: name === currentDatabase,
         }));
 
@@ -142,42 +491,102 @@ export class ToolHandlers {
     };
   }
 
-  private async handleQuery(sql: string): Promise<CallToolResult> {
-    try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        await client.query('BEGIN TRANSACTION READ ONLY');
-        try {
-          const queryResult = await client.query(sql);
-          await client.query('ROLLBACK');
-          return queryResult;
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+  private async handleGetPoolStats(): Promise<CallToolResult> {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              currentDatabase: this.dbManager.getCurrentDatabase(),
+              pools: this.dbManager.getPoolStats(),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: false,
+    };
+  }
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(result.rows, null, 2) }],
-        isError: false,
-      };
-    } catch (error) {
-      return createQueryErrorResponse(error, sql);
+  // Mutating calls on protected databases are queued for approval; dry runs are previews and run immediately
+  private requiresApproval(name: string, args: Record<string, unknown> | undefined, database: string): boolean {
+    return (
+      Boolean(this.dbManager.getDatabaseConfig(database).protected) &&
+      getRequiredAccessLevel(name) !== 'readonly' &&
+      !args?.dryRun
+    );
+  }
+
+  private async createPendingOperation(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    options: ExecutionOptions,
+    call: ToolCallRecord
+  ): Promise<CallToolResult> {
+    // The preview runs before anyone approves. Row changes are previewed by dry runs that are rolled back, while
+    // raw SQL, schema changes and migrations are only shown, since a rollback cannot undo everything they can do
+    const preview = await this.dispatchToolCall(name, { ...args, dryRun: true }, { ...options, preview: true });
+    if (preview.isError || preview.content[0]?.type !== 'text') {
+      return preview;
     }
+
+    const database = options.database as string;
+    const operation = this.approvals.create(
+      name,
+      args,
+      database,
+      this.dbManager.getDatabaseConfig(database).approvalTimeout || DEFAULT_APPROVAL_TIMEOUT
+    );
+    call.operationId = operation.id;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              status: 'pending',
+              message: `'${database}' is protected. Call approveOperation or rejectOperation with this operationId`,
+              operationId: operation.id,
+              tool: name,
+              expiresAt: operation.expiresAt,
+              preview: JSON.parse(preview.content[0].text),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: false,
+    };
   }
 
-  private async handleExecute(sql: string): Promise<CallToolResult> {
+  private async handleApproveOperation(options: ExecutionOptions, operationId: string): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        await client.query('BEGIN');
-        try {
-          const queryResult = await client.query(sql);
-          await client.query('COMMIT');
-          return queryResult;
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
+      const operation = this.approvals.take(operationId);
+
+      // The database's configuration may have changed or been removed since the operation was queued
+      if (!this.dbManager.getDatabases()[operation.database]) {
+        throw new Error(`Database configuration '${operation.database}' not found`);
+      }
+      const access = this.dbManager.getAccessLevel(operation.database);
+      if (!isToolAllowed(operation.tool, access)) {
+        return createAccessDeniedErrorResponse(
+          operation.tool,
+          operation.database,
+          access,
+          getRequiredAccessLevel(operation.tool)
+        );
+      }
+
+      const result = await this.dispatchToolCall(operation.tool, operation.arguments, {
+        ...options,
+        database: operation.database,
+        statementTimeout: operation.arguments.timeout as number,
       });
+      const payload = result.content[0]?.type === 'text' ? JSON.parse(result.content[0].text) : undefined;
 
       return {
         content: [
@@ -185,144 +594,144 @@ export class ToolHandlers {
             type: 'text',
             text: JSON.stringify(
               {
-                command: result.command,
-                rowCount: result.rowCount,
-                rows: result.rows,
+                status: 'approved',
+                operationId,
+                tool: operation.tool,
+                database: operation.database,
+                result: payload,
               },
               null,
               2
             ),
           },
         ],
-        isError: false,
+        isError: result.isError,
       };
     } catch (error) {
-      return createQueryErrorResponse(error, sql);
+      return createErrorResponse(error, { operationId });
     }
   }
 
-  private async handleInsert(table: string, data: Record<string, any>): Promise<CallToolResult> {
+  private async handleRejectOperation(operationId: string): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const columns = Object.keys(data);
-        const values = Object.values(data);
-        const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
-
-        await client.query('BEGIN');
-        try {
-          const queryResult = await client.query(
-            `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders}) RETURNING *`,
-            values
-          );
-          await client.query('COMMIT');
-          return queryResult;
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+      const operation = this.approvals.take(operationId);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result.rows, null, 2),
+            text: JSON.stringify(
+              {
+                status: 'rejected',
+                operationId,
+                tool: operation.tool,
+                database: operation.database,
+              },
+              null,
+              2
+            ),
           },
         ],
         isError: false,
       };
     } catch (error) {
-      return createTableErrorResponse(error, table, 'INSERT');
+      return createErrorResponse(error, { operationId });
     }
   }
 
-  private async handleUpdate(table: string, data: Record<string, any>, where: string): Promise<CallToolResult> {
+  private async handleGetAuditLog(limit?: number, environment?: string, tool?: string): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const setClause = Object.entries(data)
-          .map(([col, _], i) => `${col} = $${i + 1}`)
-          .join(', ');
-
-        await client.query('BEGIN');
-        try {
-          const queryResult = await client.query(
-            `UPDATE ${table} SET ${setClause} WHERE ${where} RETURNING *`,
-            Object.values(data)
-          );
-          await client.query('COMMIT');
-          return queryResult;
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+      const entries = await this.auditLogger.getRecentEntries({ limit, environment, tool });
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result.rows, null, 2),
+            text: JSON.stringify({ entries, count: entries.length }, null, 2),
           },
         ],
         isError: false,
       };
     } catch (error) {
-      return createTableErrorResponse(error, table, 'UPDATE');
+      return createErrorResponse(error, { environment, tool });
     }
   }
 
-  private async handleDelete(table: string, where: string): Promise<CallToolResult> {
+  private async handleQuery(
+    options: ExecutionOptions,
+    sql: string,
+    limit?: number,
+    offset?: number,
+    cursor?: string
+  ): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        await client.query('BEGIN');
-        try {
-          const queryResult = await client.query(`DELETE FROM ${table} WHERE ${where} RETURNING *`);
-          await client.query('COMMIT');
-          return queryResult;
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+      const dbConfig = this.dbManager.getDatabaseConfig(options.database);
+      const maxRows = dbConfig.maxRows || DEFAULT_MAX_ROWS;
+      const maxBytes = dbConfig.maxResultBytes || DEFAULT_MAX_RESULT_BYTES;
+      const pageSize = Math.min(limit && limit > 0 ? limit : maxRows, maxRows);
+      const startOffset = cursor ? decodeCursor(cursor, sql) : Math.max(offset || 0, 0);
+      options.statements?.push(sql);
+
+      const result = await this.dbManager.executeWithConnection(
+        client => this.runReadOnly(client, () => this.fetchQueryPage(client, sql, startOffset, pageSize + 1), options),
+        options
+      );
+
+      const page = truncateRows(result.rows, pageSize, maxBytes);
+      const nextOffset = startOffset + page.rows.length;
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result.rows, null, 2),
+            text: JSON.stringify(
+              {
+                rows: page.rows,
+                rowCount: page.rows.length,
+                offset: startOffset,
+                truncated: page.truncated,
+                truncatedBy: page.truncatedBy,
+                nextCursor: page.truncated ? encodeCursor(sql, nextOffset) : undefined,
+                fields: describeFields(result.fields),
+              },
+              null,
+              2
+            ),
           },
         ],
         isError: false,
       };
     } catch (error) {
-      return createTableErrorResponse(error, table, 'DELETE');
+      return createQueryErrorResponse(error, sql);
     }
   }
 
-  private async handleCreateTable(
-    tableName: string,
-    columns: Array<{ name: string; type: string; constraints?: string }>,
-    constraints?: Array<string>
+  private async handleExplainQuery(
+    options: ExecutionOptions,
+    sql: string,
+    explainOptions: ExplainOptions
   ): Promise<CallToolResult> {
+    const explainSql = buildExplainStatement(sql || '', explainOptions);
+
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const columnDefinitions = columns
-          .map(col => `${col.name} ${col.type}${col.constraints ? ' ' + col.constraints : ''}`)
-          .join(', ');
+      options.statements?.push(explainSql);
 
-        const tableConstraints = constraints ? ', ' + constraints.join(', ') : '';
-        const createTableSQL = `CREATE TABLE ${tableName} (${columnDefinitions}${tableConstraints})`;
+      // ANALYZE executes the statement, so writes are only attempted where the database allows them and always
+      // rolled back; read-only databases reject them instead
+      const canWrite = isToolAllowed('execute', this.dbManager.getAccessLevel(options.database));
+      const { explained, relationRows } = await this.dbManager.executeWithConnection(client => {
+        const explain = async () => {
+          const [explained] = (await client.query(singleStatement(explainSql))).rows[0]['QUERY PLAN'];
+          const relationRows = explainOptions.analyze
+            ? {}
+            : await getRelationRowEstimates(client, listScannedRelations(explained.Plan));
+          return { explained, relationRows };
+        };
 
-        await client.query('BEGIN');
-        try {
-          await client.query(createTableSQL);
-          await client.query('COMMIT');
-          return { sql: createTableSQL };
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+        return canWrite
+          ? this.runInTransaction(client, explain, options, true)
+          : this.runReadOnly(client, explain, options);
+      }, options);
 
       return {
         content: [
@@ -330,8 +739,12 @@ export class ToolHandlers {
             type: 'text',
             text: JSON.stringify(
               {
-                message: `Table ${tableName} created successfully`,
-                sql: result.sql,
+                analyzed: !!explainOptions.analyze,
+                planningTime: explained['Planning Time'],
+                executionTime: explained['Execution Time'],
+                hotSpots: findHotSpots(explained.Plan, relationRows),
+                plan: explained.Plan,
+                triggers: explained.Triggers,
               },
               null,
               2
@@ -341,95 +754,80 @@ export class ToolHandlers {
         isError: false,
       };
     } catch (error) {
-      return createTableOperationErrorResponse(error, tableName, 'CREATE TABLE');
+      return createQueryErrorResponse(error, explainSql);
     }
   }
 
-  private async handleCreateFunction(
-    name: string,
-    parameters: string,
-    returnType: string,
-    language: string,
-    body: string,
-    options?: string
+  private async handleSuggestIndexes(
+    options: ExecutionOptions,
+    schemas?: string[],
+    table?: string,
+    sql?: string,
+    limit?: number
   ): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const createFunctionSQL = `
-        CREATE OR REPLACE FUNCTION ${name}(${parameters})
-        RETURNS ${returnType}
-        LANGUAGE ${language}
-        ${options || ''}
-        AS $$
-        ${body}
-        $$;
-      `;
+      const filter = { schemas, table };
 
-        await client.query('BEGIN');
-        try {
-          await client.query(createFunctionSQL);
-          await client.query('COMMIT');
-          return { sql: createFunctionSQL };
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+      const advice = await this.dbManager.executeWithConnection(client => {
+        const advise = async () => {
+          const tables = await loadTableScanStats(client, filter);
+          const statements = await loadTopStatements(client);
+          const columns = await loadSelectiveColumns(client, tables);
+          const candidates = proposeIndexes(tables, columns, statements, sql, limit && limit > 0 ? limit : undefined);
+
+          let validation: string | undefined;
+          if (sql) {
+            // Without hypopg, validating would mean building real indexes, which blocks writes while they are built
+            if (await isHypopgInstalled(client)) {
+              await validateCandidates(client, candidates, sql, options.statements);
+              validation = 'hypopg';
+            } else {
+              validation = 'skipped: hypopg is not installed';
+            }
+          }
+
+          return {
+            statsSince: await loadStatsResetTime(client),
+            pgStatStatements: statements !== undefined,
+            validation,
+            candidates,
+            unusedIndexes: await findUnusedIndexes(client, filter),
+            duplicateIndexes: await findDuplicateIndexes(client, filter),
+          };
+        };
+
+        return this.runReadOnly(client, advise, options);
+      }, options);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(
-              {
-                message: `Function ${name} created successfully`,
-                sql: result.sql,
-              },
-              null,
-              2
-            ),
+            text: JSON.stringify(advice, null, 2),
           },
         ],
         isError: false,
       };
     } catch (error) {
-      return createFunctionErrorResponse(error, name);
+      return createErrorResponse(error, { table, sql });
     }
   }
 
-  private async handleCreateTrigger(
-    name: string,
-    tableName: string,
-    functionName: string,
-    when: string,
-    events: string[],
-    forEach: string,
-    condition?: string
+  private async handleGetActivity(
+    options: ExecutionOptions,
+    includeIdle?: boolean,
+    longRunningThreshold?: number
   ): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const eventStr = events.join(' OR ');
-        const whenClause = condition ? `WHEN (${condition})` : '';
-
-        const createTriggerSQL = `
-        CREATE TRIGGER ${name}
-        ${when} ${eventStr}
-        ON ${tableName}
-        FOR EACH ${forEach}
-        ${whenClause}
-        EXECUTE FUNCTION ${functionName}();
-      `;
-
-        await client.query('BEGIN');
-        try {
-          await client.query(createTriggerSQL);
-          await client.query('COMMIT');
-          return { sql: createTriggerSQL };
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
-        }
-      });
+      const threshold = longRunningThreshold ?? DEFAULT_LONG_RUNNING_THRESHOLD;
+      const sessions = await this.dbManager.executeWithConnection(
+        client => this.runReadOnly(client, () => listSessions(client, includeIdle), options),
+        options
+      );
+      const annotated = sessions.map(session => ({
+        ...session,
+        longRunning: session.state === 'active' && session.durationMs >= threshold,
+      }));
 
       return {
         content: [
@@ -437,8 +835,16 @@ export class ToolHandlers {
             type: 'text',
             text: JSON.stringify(
               {
-                message: `Trigger ${name} created successfully on table ${tableName}`,
-                sql: result.sql,
+                summary: {
+                  sessions: annotated.length,
+                  active: annotated.filter(session => session.state === 'active').length,
+                  idleInTransaction: annotated.filter(session => session.state?.startsWith('idle in transaction'))
+                    .length,
+                  waitingOnLocks: annotated.filter(session => session.waitEventType === 'Lock').length,
+                  longRunning: annotated.filter(session => session.longRunning).length,
+                },
+                longRunningThreshold: threshold,
+                sessions: annotated,
               },
               null,
               2
@@ -448,40 +854,89 @@ export class ToolHandlers {
         isError: false,
       };
     } catch (error) {
-      return createTriggerErrorResponse(error, name, tableName);
+      return createErrorResponse(error);
     }
   }
 
-  private async handleCreateIndex(
-    tableName: string,
-    indexName: string,
-    columns: string[],
-    unique?: boolean,
-    type?: string,
-    where?: string
-  ): Promise<CallToolResult> {
+  private async handleGetLocks(options: ExecutionOptions): Promise<CallToolResult> {
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const uniqueStr = unique ? 'UNIQUE' : '';
-        const typeStr = type ? `USING ${type}` : '';
-        const whereClause = where ? `WHERE ${where}` : '';
+      const chains = await this.dbManager.executeWithConnection(
+        client => this.runReadOnly(client, () => listLockChains(client), options),
+        options
+      );
 
-        const createIndexSQL = `
-        CREATE ${uniqueStr} INDEX ${indexName}
-        ON ${tableName} ${typeStr} (${columns.join(', ')})
-        ${whereClause}
-      `;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ chains, count: chains.length }, null, 2),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  }
 
-        await client.query('BEGIN');
-        try {
-          await client.query(createIndexSQL);
-          await client.query('COMMIT');
-          return { sql: createIndexSQL };
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
+  private async handleGetHealthReport(
+    options: ExecutionOptions,
+    checks?: HealthCheck[],
+    limit?: number
+  ): Promise<CallToolResult> {
+    try {
+      const unknown = (checks || []).filter(check => !HEALTH_CHECKS.includes(check));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown health checks: ${unknown.join(', ')}. Expected any of: ${HEALTH_CHECKS.join(', ')}`);
+      }
+
+      const selected = checks && checks.length > 0 ? checks : HEALTH_CHECKS;
+      const report = await this.dbManager.executeWithConnection(
+        client =>
+          this.runReadOnly(
+            client,
+            () => runHealthChecks(client, selected, limit && limit > 0 ? limit : DEFAULT_HEALTH_REPORT_LIMIT),
+            options
+          ),
+        options
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createErrorResponse(error, { checks });
+    }
+  }
+
+  private async handleCompareSchemas(
+    options: ExecutionOptions,
+    source: string,
+    target: string,
+    schemas?: string[],
+    includeDdl?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      for (const database of [source, target]) {
+        if (!database || !this.dbManager.getDatabases()[database]) {
+          throw new Error(`Database configuration '${database}' not found`);
         }
-      });
+      }
+
+      const loadSnapshot = (database: string) =>
+        this.dbManager.executeWithConnection(
+          client => this.runReadOnly(client, () => loadSchemaSnapshot(client, schemas), options),
+          { ...options, database }
+        );
+
+      const [sourceSnapshot, targetSnapshot] = await Promise.all([loadSnapshot(source), loadSnapshot(target)]);
+      const diff = diffSchemas(sourceSnapshot, targetSnapshot);
 
       return {
         content: [
@@ -489,8 +944,10 @@ export class ToolHandlers {
             type: 'text',
             text: JSON.stringify(
               {
-                message: `Index ${indexName} created successfully on table ${tableName}`,
-                sql: result.sql,
+                source,
+                target,
+                diff,
+                ddl: includeDdl ? generateSchemaDdl(sourceSnapshot, targetSnapshot, diff) : undefined,
               },
               null,
               2
@@ -500,25 +957,61 @@ export class ToolHandlers {
         isError: false,
       };
     } catch (error) {
-      return createIndexErrorResponse(error, indexName, tableName);
+      return createErrorResponse(error, { source, target });
     }
   }
 
-  private async handleAlterTable(tableName: string, operation: string, details: string): Promise<CallToolResult> {
+  private async handleCompareData(
+    options: ExecutionOptions,
+    source: string,
+    target: string,
+    sql?: string,
+    table?: string,
+    keyColumns?: string[],
+    limit?: number,
+    hash?: boolean
+  ): Promise<CallToolResult> {
+    let comparisonSql: string | undefined;
+
     try {
-      const result = await this.dbManager.executeWithConnection(async client => {
-        const alterTableSQL = `ALTER TABLE ${tableName} ${operation} ${details}`;
-
-        await client.query('BEGIN');
-        try {
-          await client.query(alterTableSQL);
-          await client.query('COMMIT');
-          return { sql: alterTableSQL };
-        } catch (error) {
-          await client.query('ROLLBACK');
-          throw error;
+      for (const database of [source, target]) {
+        if (!database || !this.dbManager.getDatabases()[database]) {
+          throw new Error(`Database configuration '${database}' not found`);
         }
-      });
+      }
+      if (!sql === !table) {
+        throw new Error('Either sql or table is required, but not both');
+      }
+
+      const maxRows = Math.min(
+        ...[source, target].map(database => this.dbManager.getDatabaseConfig(database).maxRows || DEFAULT_MAX_ROWS)
+      );
+      const rowLimit = Math.min(limit && limit > 0 ? limit : maxRows, maxRows);
+
+      // Tables are matched on the source's primary key unless key columns are given
+      let keys = keyColumns || [];
+      if (keys.length === 0 && table) {
+        keys = await this.dbManager.executeWithConnection(
+          client => getPrimaryKeyColumns(client, quoteQualifiedName(table)),
+          { ...options, database: source }
+        );
+      }
+      comparisonSql = buildComparisonQuery({ sql, table, keyColumns: keys, hash: !!hash, limit: rowLimit });
+      options.statements?.push(comparisonSql);
+
+      const fetchRows = (database: string, query: string) =>
+        this.dbManager.executeWithConnection(
+          async client => (await this.runReadOnly(client, () => client.query(singleStatement(query)), options)).rows,
+          { ...options, database }
+        );
+
+      const [sourceRows, targetRows] = await Promise.all([
+        fetchRows(source, comparisonSql),
+        fetchRows(target, comparisonSql),
+      ]);
+      const truncatedSides = { source: sourceRows.length > rowLimit, target: targetRows.length > rowLimit };
+      const truncated = truncatedSides.source || truncatedSides.target;
+      const diff = diffRows(sourceRows.slice(0, rowLimit), targetRows.slice(0, rowLimit), keys, truncatedSides);
 
       return {
         content: [
@@ -526,8 +1019,12 @@ export class ToolHandlers {
             type: 'text',
             text: JSON.stringify(
               {
-                message: `Table ${tableName} altered successfully`,
-                sql: result.sql,
+                source,
+                target,
+                keyColumns: keys,
+                hashed: !!hash,
+                truncated,
+                ...diff,
               },
               null,
               2
@@ -537,7 +1034,1244 @@ export class ToolHandlers {
         isError: false,
       };
     } catch (error) {
-      return createTableOperationErrorResponse(error, tableName, operation);
+      // Error positions refer to the generated comparison query rather than the given sql
+      return createErrorResponse(error, { source, target, table, sql: comparisonSql ?? sql });
+    }
+  }
+
+  // Reads a window of rows through a server-side cursor so only that window is materialized.
+  // Statements that cannot back a cursor (SHOW, EXPLAIN, ...) fall back to a plain query.
+  private async fetchQueryPage(client: PoolClient, sql: string, offset: number, count: number): Promise<QueryResult> {
+    const statement = sql.trim().replace(/;\s*$/, '');
+
+    await client.query('SAVEPOINT mcp_query_page');
+    try {
+      await client.query(singleStatement(`DECLARE mcp_query_cursor NO SCROLL CURSOR FOR ${statement}`));
+    } catch (error) {
+      await client.query('ROLLBACK TO SAVEPOINT mcp_query_page');
+      const queryResult = await client.query(singleStatement(sql));
+      return { ...queryResult, rows: (queryResult.rows || []).slice(offset, offset + count) };
+    }
+
+    if (offset > 0) {
+      await client.query(singleStatement(`MOVE FORWARD ${offset} FROM mcp_query_cursor`));
+    }
+    return client.query(singleStatement(`FETCH FORWARD ${count} FROM mcp_query_cursor`));
+  }
+
+  private async handleExecute(options: ExecutionOptions, sql: string, dryRun?: boolean): Promise<CallToolResult> {
+    try {
+      options.statements?.push(sql);
+      if (options.preview) {
+        return await this.createPreviewResponse(sql, options);
+      }
+
+      const access = this.dbManager.getAccessLevel(options.database);
+      const result = await this.dbManager.executeWithConnection(async client => {
+        const run = async () => {
+          const queryResult = await client.query(singleStatement(sql));
+          // SELECT ... INTO and CREATE TABLE AS create a table but report SELECT, without returning any columns
+          const command =
+            queryResult.command === 'SELECT' && queryResult.fields.length === 0 ? 'SELECT INTO' : queryResult.command;
+          // The transaction is rolled back before schema changes and other non-DML commands reach a dml database
+          if (!isCommandAllowed(command, access)) {
+            throw new Error(`${command} requires ddl access, but database '${options.database}' is ${access}`);
+          }
+          return queryResult;
+        };
+        return this.runInTransaction(client, run, options, dryRun);
+      }, options);
+
+      if (dryRun) {
+        return this.createDryRunResponse(result);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                command: result.command,
+                rowCount: result.rowCount,
+                rows: result.rows,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createQueryErrorResponse(error, sql);
+    }
+  }
+
+  private async handleInsert(
+    options: ExecutionOptions,
+    table: string,
+    data: Record<string, any>,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const result = await this.dbManager.executeWithConnection(async client => {
+        const columns = Object.keys(data).map(quoteIdentifier).join(', ');
+        const values = Object.values(data);
+        const placeholders = values.map((_, i) => `$${i + 1}`).join(', ');
+        const sql = `INSERT INTO ${quoteQualifiedName(table)} (${columns}) VALUES (${placeholders}) RETURNING *`;
+        options.statements?.push(sql);
+
+        return this.runInTransaction(client, () => client.query(singleStatement(sql, values)), options, dryRun);
+      }, options);
+
+      if (dryRun) {
+        return this.createDryRunResponse(result);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result.rows, null, 2),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createTableErrorResponse(error, table, 'INSERT');
+    }
+  }
+
+  private async handleUpdate(
+    options: ExecutionOptions,
+    table: string,
+    data: Record<string, any>,
+    where: WhereInput,
+    dryRun?: boolean,
+    confirm?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      this.checkWhereCondition(where, options);
+
+      const result = await this.dbManager.executeWithConnection(async client => {
+        const setClause = Object.keys(data)
+          .map((col, i) => `${quoteIdentifier(col)} = $${i + 1}`)
+          .join(', ');
+        const whereClause = buildWhereClause(where, Object.keys(data).length + 1);
+        const sql = `UPDATE ${quoteQualifiedName(table)} SET ${setClause} WHERE ${whereClause.clause} RETURNING *`;
+        options.statements?.push(sql);
+
+        return this.runInTransaction(
+          client,
+          async () => {
+            const values = [...Object.values(data), ...whereClause.values];
+            const queryResult = await client.query(singleStatement(sql, values));
+            this.checkAffectedRows(queryResult.rowCount, options, confirm);
+            return queryResult;
+          },
+          options,
+          dryRun
+        );
+      }, options);
+
+      if (dryRun) {
+        return this.createDryRunResponse(result);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result.rows, null, 2),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createTableErrorResponse(error, table, 'UPDATE');
+    }
+  }
+
+  private async handleDelete(
+    options: ExecutionOptions,
+    table: string,
+    where: WhereInput,
+    dryRun?: boolean,
+    confirm?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      this.checkWhereCondition(where, options);
+
+      const result = await this.dbManager.executeWithConnection(async client => {
+        const whereClause = buildWhereClause(where);
+        const sql = `DELETE FROM ${quoteQualifiedName(table)} WHERE ${whereClause.clause} RETURNING *`;
+        options.statements?.push(sql);
+
+        return this.runInTransaction(
+          client,
+          async () => {
+            const queryResult = await client.query(singleStatement(sql, whereClause.values));
+            this.checkAffectedRows(queryResult.rowCount, options, confirm);
+            return queryResult;
+          },
+          options,
+          dryRun
+        );
+      }, options);
+
+      if (dryRun) {
+        return this.createDryRunResponse(result);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result.rows, null, 2),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createTableErrorResponse(error, table, 'DELETE');
+    }
+  }
+
+  private async handleTerminateBackend(
+    options: ExecutionOptions,
+    pid: number,
+    cancelOnly?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const database = options.database as string;
+      if (!this.dbManager.getDatabaseConfig(database).allowTerminate) {
+        throw new Error(`terminateBackend is not enabled for database '${database}'. Set allowTerminate to enable it`);
+      }
+      if (!Number.isInteger(pid)) {
+        throw new Error('pid must be an integer');
+      }
+
+      const action = cancelOnly ? 'cancel' : 'terminate';
+      const result = await this.dbManager.executeWithConnection(async client => {
+        // Only sessions of this environment's database can be signalled, never the connection running this call
+        const session = await getSession(client, pid);
+        if (!session) {
+          throw new Error(`No other session with pid ${pid} is connected to database '${database}'`);
+        }
+        if (dryRun) {
+          return { session };
+        }
+
+        const sql = `SELECT pg_${action}_backend($1) AS signalled`;
+        options.statements?.push(sql);
+        const signalled: boolean = (await client.query(sql, [pid])).rows[0].signalled;
+        return { session, signalled };
+      }, options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(dryRun ? { dryRun: true, action, ...result } : { action, ...result }, null, 2),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createErrorResponse(error, { pid });
+    }
+  }
+
+  private async handleCreateView(
+    options: ExecutionOptions,
+    name: string,
+    query: string,
+    materialized?: boolean,
+    orReplace?: boolean,
+    ifNotExists?: boolean,
+    withData?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    const type: ObjectType = materialized ? 'materialized view' : 'view';
+    try {
+      if (materialized && orReplace) {
+        throw new Error('orReplace is not supported for materialized views');
+      }
+      if (!materialized && (ifNotExists || withData !== undefined)) {
+        throw new Error('ifNotExists and withData only apply to materialized views; use orReplace for views');
+      }
+
+      const select = query.trim().replace(/;\s*$/, '');
+      const createViewSQL = materialized
+        ? `CREATE MATERIALIZED VIEW ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteQualifiedName(name)} AS ${select}` +
+          (withData === false ? ' WITH NO DATA' : '')
+        : `CREATE ${orReplace ? 'OR REPLACE ' : ''}VIEW ${quoteQualifiedName(name)} AS ${select}`;
+
+      return await this.applyDefinition(
+        {
+          description: `create ${type} ${name}`,
+          up: createViewSQL,
+          down: (client, applyUp) => this.revertCreate(client, { type, name }, applyUp, orReplace),
+        },
+        `${materialized ? 'Materialized view' : 'View'} ${name} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createObjectErrorResponse(error, type, name);
+    }
+  }
+
+  private async handleRefreshMaterializedView(
+    options: ExecutionOptions,
+    name: string,
+    concurrently?: boolean,
+    withData?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const refreshSQL =
+        `REFRESH MATERIALIZED VIEW ${concurrently ? 'CONCURRENTLY ' : ''}${quoteQualifiedName(name)}` +
+        (withData === false ? ' WITH NO DATA' : '');
+
+      if (options.preview) {
+        options.statements?.push(refreshSQL);
+        return await this.createPreviewResponse(refreshSQL, options);
+      }
+
+      // Refreshing only replaces the view's data, so it runs directly even in migration mode
+      const result = await this.executeDefinition(refreshSQL, options, dryRun);
+
+      return this.createDefinitionResponse(`Materialized view ${name} refreshed successfully`, result);
+    } catch (error) {
+      return createObjectErrorResponse(error, 'materialized view', name);
+    }
+  }
+
+  private async handleCreateType(
+    options: ExecutionOptions,
+    name: string,
+    values?: string[],
+    attributes?: Array<{ name: string; type: string }>,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      if ((values === undefined) === (attributes === undefined)) {
+        throw new Error('Pass either values for an enum type or attributes for a composite type');
+      }
+
+      const definition = values
+        ? `ENUM (${values.map(quoteLiteral).join(', ')})`
+        : `(${(attributes || []).map(attribute => `${quoteIdentifier(attribute.name)} ${attribute.type}`).join(', ')})`;
+      const createTypeSQL = `CREATE TYPE ${quoteQualifiedName(name)} AS ${definition}`;
+
+      return await this.applyDefinition(
+        {
+          description: `create type ${name}`,
+          up: createTypeSQL,
+          down: `DROP TYPE ${quoteQualifiedName(name)}`,
+        },
+        `Type ${name} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createObjectErrorResponse(error, 'type', name);
+    }
+  }
+
+  private async handleCreateSequence(
+    options: ExecutionOptions,
+    name: string,
+    sequence: SequenceOptions,
+    ifNotExists?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const clauses = [
+        sequence.dataType && `AS ${sequence.dataType}`,
+        sequence.increment !== undefined && `INCREMENT BY ${this.formatInteger('increment', sequence.increment)}`,
+        sequence.minValue !== undefined && `MINVALUE ${this.formatInteger('minValue', sequence.minValue)}`,
+        sequence.maxValue !== undefined && `MAXVALUE ${this.formatInteger('maxValue', sequence.maxValue)}`,
+        sequence.start !== undefined && `START WITH ${this.formatInteger('start', sequence.start)}`,
+        sequence.cache !== undefined && `CACHE ${this.formatInteger('cache', sequence.cache)}`,
+        sequence.cycle && 'CYCLE',
+        sequence.ownedBy && `OWNED BY ${quoteQualifiedName(sequence.ownedBy)}`,
+      ].filter(Boolean);
+      const createSequenceSQL = [
+        `CREATE SEQUENCE ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteQualifiedName(name)}`,
+        ...clauses,
+      ].join(' ');
+
+      return await this.applyDefinition(
+        {
+          description: `create sequence ${name}`,
+          up: createSequenceSQL,
+          down: (client, applyUp) => this.revertCreate(client, { type: 'sequence', name }, applyUp),
+        },
+        `Sequence ${name} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createObjectErrorResponse(error, 'sequence', name);
+    }
+  }
+
+  private async handleCreateSchema(
+    options: ExecutionOptions,
+    name: string,
+    authorization?: string,
+    ifNotExists?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const createSchemaSQL =
+        `CREATE SCHEMA ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteIdentifier(name)}` +
+        (authorization ? ` AUTHORIZATION ${quoteIdentifier(authorization)}` : '');
+
+      return await this.applyDefinition(
+        {
+          description: `create schema ${name}`,
+          up: createSchemaSQL,
+          down: (client, applyUp) => this.revertCreate(client, { type: 'schema', name }, applyUp),
+        },
+        `Schema ${name} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createObjectErrorResponse(error, 'schema', name);
+    }
+  }
+
+  private async handleCreateExtension(
+    options: ExecutionOptions,
+    name: string,
+    schema?: string,
+    version?: string,
+    ifNotExists?: boolean,
+    cascade?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const createExtensionSQL =
+        `CREATE EXTENSION ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteIdentifier(name)}` +
+        (schema ? ` WITH SCHEMA ${quoteIdentifier(schema)}` : '') +
+        (version ? ` VERSION ${quoteLiteral(version)}` : '') +
+        (cascade ? ' CASCADE' : '');
+
+      return await this.applyDefinition(
+        {
+          description: `create extension ${name}`,
+          up: createExtensionSQL,
+          down: (client, applyUp) => this.revertCreate(client, { type: 'extension', name }, applyUp),
+        },
+        `Extension ${name} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createObjectErrorResponse(error, 'extension', name);
+    }
+  }
+
+  // With cascade, the objects that would be dropped along with this one are listed first, and the drop only goes
+  // ahead when the call also passes confirm. Without cascade PostgreSQL itself refuses to drop an object in use.
+  private async handleDropObject(
+    options: ExecutionOptions,
+    object: ObjectReference,
+    ifExists?: boolean,
+    cascade?: boolean,
+    confirm?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    let dependents: DependentObject[] = [];
+    try {
+      this.checkObjectType(object.type);
+      const dropSQL = buildDropStatement(object, ifExists, cascade);
+
+      if (cascade) {
+        dependents = await this.dbManager.executeWithConnection(
+          client =>
+            this.runReadOnly(
+              client,
+              async () => {
+                const id = await resolveObject(client, object);
+                return id ? listDependentObjects(client, id) : [];
+              },
+              options
+            ),
+          options
+        );
+      }
+      if (dependents.length > 0 && !confirm && !dryRun) {
+        throw new Error(
+          `Dropping ${object.type} ${object.name} with CASCADE also drops ${dependents.length} dependent object(s). ` +
+            'Nothing was dropped; pass confirm: true to drop them too.'
+        );
+      }
+
+      const result = await this.applyDefinition(
+        {
+          description: `drop ${object.type} ${object.name}`,
+          up: dropSQL,
+          down: (client, applyUp) => this.revertDrop(client, object, applyUp, dependents),
+        },
+        `${object.type[0].toUpperCase()}${object.type.slice(1)} ${object.name} dropped successfully`,
+        options,
+        dryRun
+      );
+      if (!cascade || result.isError || result.content[0]?.type !== 'text') {
+        return result;
+      }
+
+      const payload = JSON.parse(result.content[0].text);
+      return { ...result, content: [{ type: 'text', text: JSON.stringify({ ...payload, dependents }, null, 2) }] };
+    } catch (error) {
+      return createObjectErrorResponse(error, object.type, object.name, cascade ? { dependents } : {});
     }
   }
+
+  private async handleRenameObject(
+    options: ExecutionOptions,
+    object: ObjectReference,
+    newName: string,
+    ifExists?: boolean,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      this.checkObjectType(object.type);
+      const renameSQL = buildRenameStatement(object, newName, ifExists);
+
+      // The original name without its schema, which the renamed object keeps
+      const originalName =
+        object.type === 'schema' || object.type === 'trigger' ? object.name : splitQualifiedName(object.name).pop();
+
+      return await this.applyDefinition(
+        {
+          description: `rename ${object.type} ${object.name} to ${newName}`,
+          up: renameSQL,
+          down: buildRenameStatement(renamedObject(object, newName), originalName as string, ifExists),
+        },
+        `${object.type[0].toUpperCase()}${object.type.slice(1)} ${object.name} renamed to ${newName}`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createObjectErrorResponse(error, object.type, object.name, { newName });
+    }
+  }
+
+  private async handleMigrationStatus(options: ExecutionOptions): Promise<CallToolResult> {
+    try {
+      const { directory, table } = this.getMigrationsConfig();
+      const migrations = await readMigrations(directory);
+      const applied = await this.dbManager.executeWithConnection(
+        client => this.runReadOnly(client, () => loadAppliedMigrations(client, table), options),
+        options
+      );
+      const statuses = describeMigrations(migrations, applied);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                directory,
+                table,
+                summary: {
+                  applied: statuses.filter(status => status.status === 'applied').length,
+                  pending: statuses.filter(status => status.status === 'pending').length,
+                  missing: statuses.filter(status => status.status === 'missing').length,
+                  modified: statuses.filter(status => status.modified).length,
+                },
+                migrations: statuses,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createErrorResponse(error);
+    }
+  }
+
+  // Pending migrations are applied in version order within one transaction, so either all of them apply or none
+  private async handleApplyMigrations(
+    options: ExecutionOptions,
+    version?: string,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    let current: Migration | undefined;
+    try {
+      const { directory, table } = this.getMigrationsConfig();
+      const migrations = await readMigrations(directory);
+      if (version !== undefined && !migrations.some(migration => migration.version === version)) {
+        throw new Error(`Migration ${version} not found in '${directory}'`);
+      }
+
+      const applied = await this.dbManager.executeWithConnection(client => {
+        const apply = async () => {
+          if (!options.preview) {
+            await lockMigrationsTable(client, table);
+          }
+          const appliedVersions = new Set((await loadAppliedMigrations(client, table)).map(row => row.version));
+          const pending = migrations.filter(
+            migration =>
+              !appliedVersions.has(migration.version) &&
+              (version === undefined || compareVersions(migration.version, version) <= 0)
+          );
+
+          for (const migration of pending) {
+            current = migration;
+            options.statements?.push(migration.up);
+            checkTransactionControl(migration.up);
+            if (!options.preview) {
+              await client.query(migration.up);
+              await recordMigration(client, table, migration);
+            }
+          }
+          current = undefined;
+          return pending;
+        };
+
+        // Approval previews only list the pending migrations
+        return options.preview
+          ? this.runReadOnly(client, apply, options)
+          : this.runInTransaction(client, apply, options, dryRun);
+      }, options);
+
+      const verb = dryRun ? 'Would apply' : 'Applied';
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ...(dryRun && { dryRun: true }),
+                ...(options.preview && { preview: true }),
+                message: applied.length > 0 ? `${verb} ${applied.length} migration(s)` : 'No pending migrations',
+                applied: applied.map(migration => ({
+                  version: migration.version,
+                  name: migration.name,
+                  ...(dryRun && { sql: migration.up }),
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createMigrationErrorResponse(error, current && `${current.version}_${current.name}`, current?.up);
+    }
+  }
+
+  // Only the most recently applied migration can be rolled back; `version` guards against rolling back another one
+  private async handleRollbackMigration(
+    options: ExecutionOptions,
+    version?: string,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    let current: Migration | undefined;
+    try {
+      const { directory, table } = this.getMigrationsConfig();
+      const migrations = await readMigrations(directory);
+
+      const rolledBack = await this.dbManager.executeWithConnection(client => {
+        const rollBack = async () => {
+          if (!options.preview) {
+            await lockMigrationsTable(client, table);
+          }
+          const latest = (await loadAppliedMigrations(client, table)).pop();
+          if (!latest) {
+            throw new Error(`No migrations have been applied to database '${options.database}'`);
+          }
+
+          const label = `${latest.version}_${latest.name}`;
+          if (version !== undefined && version !== latest.version) {
+            throw new Error(`Migration ${version} is not the latest applied migration; roll back ${label} first`);
+          }
+          current = migrations.find(migration => migration.version === latest.version);
+          if (!current) {
+            throw new Error(`Migration ${label} is applied but its files are missing from '${directory}'`);
+          }
+          if (!hasStatements(current.down)) {
+            throw new Error(`Migration ${label} has no down migration`);
+          }
+
+          options.statements?.push(current.down as string);
+          checkTransactionControl(current.down as string);
+          if (!options.preview) {
+            await client.query(current.down as string);
+            await removeMigration(client, table, current.version);
+          }
+          return current;
+        };
+
+        // Approval previews only show the down migration
+        return options.preview
+          ? this.runReadOnly(client, rollBack, options)
+          : this.runInTransaction(client, rollBack, options, dryRun);
+      }, options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ...(dryRun && { dryRun: true }),
+                ...(options.preview && { preview: true }),
+                message: `${dryRun ? 'Would roll back' : 'Rolled back'} ${rolledBack.version}_${rolledBack.name}`,
+                rolledBack: { version: rolledBack.version, name: rolledBack.name },
+                sql: rolledBack.down,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        isError: false,
+      };
+    } catch (error) {
+      return createMigrationErrorResponse(error, current && `${current.version}_${current.name}`, current?.down);
+    }
+  }
+
+  private async handleCreateTable(
+    options: ExecutionOptions,
+    tableName: string,
+    columns: Array<{ name: string; type: string; constraints?: string }>,
+    constraints?: Array<string>,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const columnDefinitions = columns
+        .map(col => `${quoteIdentifier(col.name)} ${col.type}${col.constraints ? ' ' + col.constraints : ''}`)
+        .join(', ');
+
+      const tableConstraints = constraints ? ', ' + constraints.join(', ') : '';
+      const createTableSQL = `CREATE TABLE ${quoteQualifiedName(tableName)} (${columnDefinitions}${tableConstraints})`;
+
+      return await this.applyDefinition(
+        {
+          description: `create table ${tableName}`,
+          up: createTableSQL,
+          down: `DROP TABLE ${quoteQualifiedName(tableName)}`,
+        },
+        `Table ${tableName} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createTableOperationErrorResponse(error, tableName, 'CREATE TABLE');
+    }
+  }
+
+  private async handleCreateFunction(
+    options: ExecutionOptions,
+    name: string,
+    parameters: string,
+    returnType: string,
+    language: string,
+    body: string,
+    functionOptions?: string,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const createFunctionSQL = `
+        CREATE OR REPLACE FUNCTION ${quoteQualifiedName(name)}(${parameters})
+        RETURNS ${returnType}
+        LANGUAGE ${language}
+        ${functionOptions || ''}
+        AS $$
+        ${body}
+        $$;
+      `;
+
+      return await this.applyDefinition(
+        {
+          description: `create function ${name}`,
+          up: createFunctionSQL,
+          down: (client, applyUp) => this.revertFunction(client, name, applyUp),
+        },
+        `Function ${name} created successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createFunctionErrorResponse(error, name);
+    }
+  }
+
+  private async handleCreateTrigger(
+    options: ExecutionOptions,
+    name: string,
+    tableName: string,
+    functionName: string,
+    when: string,
+    events: string[],
+    forEach: string,
+    condition?: string,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const eventStr = events.join(' OR ');
+      const whenClause = condition ? `WHEN (${condition})` : '';
+
+      const createTriggerSQL = `
+        CREATE TRIGGER ${quoteIdentifier(name)}
+        ${when} ${eventStr}
+        ON ${quoteQualifiedName(tableName)}
+        FOR EACH ${forEach}
+        ${whenClause}
+        EXECUTE FUNCTION ${quoteQualifiedName(functionName)}();
+      `;
+
+      return await this.applyDefinition(
+        {
+          description: `create trigger ${name}`,
+          up: createTriggerSQL,
+          down: `DROP TRIGGER ${quoteIdentifier(name)} ON ${quoteQualifiedName(tableName)}`,
+        },
+        `Trigger ${name} created successfully on table ${tableName}`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createTriggerErrorResponse(error, name, tableName);
+    }
+  }
+
+  private async handleCreateIndex(
+    options: ExecutionOptions,
+    tableName: string,
+    indexName: string,
+    columns: string[],
+    unique?: boolean,
+    type?: string,
+    where?: string,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const uniqueStr = unique ? 'UNIQUE' : '';
+      const typeStr = type ? `USING ${type}` : '';
+      const whereClause = where ? `WHERE ${where}` : '';
+
+      const createIndexSQL = `
+        CREATE ${uniqueStr} INDEX ${quoteIdentifier(indexName)}
+        ON ${quoteQualifiedName(tableName)} ${typeStr} (${columns.map(quoteIdentifier).join(', ')})
+        ${whereClause}
+      `;
+
+      // Indexes are created in their table's schema
+      const qualifiedIndexName = [...splitQualifiedName(tableName).slice(0, -1), indexName]
+        .map(quoteIdentifier)
+        .join('.');
+
+      return await this.applyDefinition(
+        {
+          description: `create index ${indexName}`,
+          up: createIndexSQL,
+          down: `DROP INDEX ${qualifiedIndexName}`,
+        },
+        `Index ${indexName} created successfully on table ${tableName}`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createIndexErrorResponse(error, indexName, tableName);
+    }
+  }
+
+  private async handleAlterTable(
+    options: ExecutionOptions,
+    tableName: string,
+    operation: string,
+    details: string,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    try {
+      const alterTableSQL = `ALTER TABLE ${quoteQualifiedName(tableName)} ${operation} ${details}`;
+
+      return await this.applyDefinition(
+        {
+          description: `alter table ${tableName} ${operation}`,
+          up: alterTableSQL,
+          down: revertAlterTable(tableName, operation, details),
+        },
+        `Table ${tableName} altered successfully`,
+        options,
+        dryRun
+      );
+    } catch (error) {
+      return createTableOperationErrorResponse(error, tableName, operation);
+    }
+  }
+
+  // Protected databases refuse raw WHERE strings that would match every row
+  private checkWhereCondition(where: WhereInput, options: ExecutionOptions): void {
+    const { database } = options;
+    const isProtected = this.dbManager.getDatabaseConfig(database).protected;
+
+    if (isProtected && typeof where === 'string' && isTautologicalWhere(where)) {
+      throw new Error(
+        `WHERE condition '${where}' matches every row, which is not allowed on protected database '${database}'`
+      );
+    }
+  }
+
+  // Throwing inside the transaction rolls back a statement that touched too many rows
+  private checkAffectedRows(rowCount: number | null, options: ExecutionOptions, confirm?: boolean): void {
+    const { database } = options;
+    const { maxAffectedRows } = this.dbManager.getDatabaseConfig(database);
+
+    if (maxAffectedRows === undefined || confirm || (rowCount ?? 0) <= maxAffectedRows) {
+      return;
+    }
+
+    throw new Error(
+      `Statement affected ${rowCount} rows, exceeding the limit of ${maxAffectedRows} on database '${database}'. ` +
+        'The change was rolled back; pass confirm: true to apply it anyway.'
+    );
+  }
+
+  // Echoes the environment a tool ran against into its JSON response
+  private withDatabase(result: CallToolResult, database: string): CallToolResult {
+    const [first, ...rest] = result.content;
+    if (first?.type !== 'text') {
+      return result;
+    }
+
+    const payload = JSON.parse(first.text);
+    const echoed = Array.isArray(payload) ? { database, rows: payload } : { database, ...payload };
+
+    return { ...result, content: [{ ...first, text: JSON.stringify(echoed, null, 2) }, ...rest] };
+  }
+
+  // Runs the operation inside a read-only transaction that is always rolled back
+  private async runReadOnly<T>(client: PoolClient, operation: () => Promise<T>, options: ExecutionOptions): Promise<T> {
+    await client.query('BEGIN TRANSACTION READ ONLY');
+    try {
+      await this.dbManager.applyTimeouts(client, options);
+      return await operation();
+    } finally {
+      await client.query('ROLLBACK');
+    }
+  }
+
+  // Runs the operation inside BEGIN/COMMIT, rolling back instead of committing for dry runs
+  private async runInTransaction<T>(
+    client: PoolClient,
+    operation: () => Promise<T>,
+    options: ExecutionOptions,
+    dryRun = false
+  ): Promise<T> {
+    await client.query('BEGIN');
+    try {
+      await this.dbManager.applyTimeouts(client, options);
+      const result = await operation();
+      await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private getMigrationsConfig(): Required<MigrationsConfig> {
+    const { migrations } = this.config;
+    if (!migrations) {
+      throw new Error('Migrations are not configured. Set migrations.directory in the configuration');
+    }
+    return { directory: migrations.directory, table: migrations.table || DEFAULT_MIGRATIONS_TABLE };
+  }
+
+  // In migration mode schema changes are written to a migration instead of being applied
+  private async applyDefinition(
+    migration: DefinitionMigration,
+    message: string,
+    options: ExecutionOptions,
+    dryRun?: boolean
+  ): Promise<CallToolResult> {
+    if (options.preview) {
+      options.statements?.push(migration.up);
+      return this.createPreviewResponse(migration.up, options);
+    }
+    if (this.config.migrations) {
+      return this.writeDefinitionMigration(migration, options, dryRun);
+    }
+    return this.createDefinitionResponse(message, await this.executeDefinition(migration.up, options, dryRun));
+  }
+
+  // The up and down SQL are run in a transaction that is always rolled back, after the migrations still pending on
+  // this database, so a migration is only written when it applies and reverts cleanly on top of the earlier ones
+  private async writeDefinitionMigration(
+    migration: DefinitionMigration,
+    options: ExecutionOptions,
+    dryRun = false
+  ): Promise<CallToolResult> {
+    const { directory, table } = this.getMigrationsConfig();
+    const { up } = migration;
+    const migrations = await readMigrations(directory);
+
+    let down: string;
+    try {
+      down = await this.dbManager.executeWithConnection(
+        client =>
+          this.runInTransaction(
+            client,
+            async () => {
+              const applied = new Set((await loadAppliedMigrations(client, table)).map(row => row.version));
+              for (const pending of migrations.filter(({ version }) => !applied.has(version))) {
+                options.statements?.push(pending.up);
+                try {
+                  checkTransactionControl(pending.up);
+                  await client.query(pending.up);
+                } catch (error) {
+                  const message = error instanceof Error ? error.message : String(error);
+                  throw new Error(`Pending migration ${pending.version}_${pending.name} failed: ${message}`);
+                }
+              }
+
+              const applyUp = () => {
+                options.statements?.push(up);
+                return client.query(singleStatement(up));
+              };
+
+              let down = migration.down;
+              if (typeof down === 'string') {
+                await applyUp();
+              } else {
+                down = await down(client, applyUp);
+              }
+
+              if (hasStatements(down)) {
+                options.statements?.push(down);
+                checkTransactionControl(down);
+                await client.query(down);
+              }
+              return down;
+            },
+            options,
+            true
+          ),
+        options
+      );
+    } catch (error) {
+      if (!dryRun) {
+        throw error;
+      }
+      return this.createDefinitionResponse('', {
+        sql: up,
+        dryRun,
+        wouldSucceed: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorDetails: extractPostgresErrorDetails(error, up),
+      });
+    }
+
+    const written = dryRun ? undefined : await writeMigration(directory, migration.description, up, down);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...(dryRun ? { dryRun: true, wouldSucceed: true } : {}),
+              ...(written && {
+                message: `Migration ${written.version}_${written.name} written to '${directory}'`,
+                version: written.version,
+                files: written.files.map(file => join(directory, file)),
+              }),
+              up,
+              down,
+              reversible: hasStatements(down),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: false,
+    };
+  }
+
+  // Reverts CREATE OR REPLACE FUNCTION to the definition it replaced, or drops the function it created
+  private async revertFunction(client: PoolClient, name: string, applyUp: () => Promise<unknown>): Promise<string> {
+    const before = await getFunctionDefinitions(client, name);
+    await applyUp();
+    const after = await getFunctionDefinitions(client, name);
+
+    const changed = Object.keys(after).find(args => after[args] !== before[args]);
+    if (changed === undefined) {
+      return `-- Function ${name} was already defined this way; there is nothing to revert.`;
+    }
+    return before[changed] !== undefined
+      ? `${before[changed]};`
+      : `DROP FUNCTION ${quoteQualifiedName(name)}(${changed})`;
+  }
+
+  // Drops the object the up SQL created, restores the definition it replaced, or does nothing when IF NOT EXISTS
+  // found it already in place
+  private async revertCreate(
+    client: PoolClient,
+    object: ObjectReference,
+    applyUp: () => Promise<unknown>,
+    replace = false
+  ): Promise<string> {
+    const existing = await resolveObject(client, object);
+    const previous = existing && replace ? await getObjectDefinition(client, object, existing) : undefined;
+    await applyUp();
+
+    if (!existing) {
+      return buildDropStatement(object);
+    }
+    if (previous) {
+      // CREATE OR REPLACE VIEW cannot remove the columns the replacement added
+      return `${buildDropStatement(object)};\n${previous}`;
+    }
+    return `-- ${object.type} ${object.name} already existed; there is nothing to revert.`;
+  }
+
+  // Recreates the dropped object from its definition. Objects dropped along with it by CASCADE are not restored.
+  private async revertDrop(
+    client: PoolClient,
+    object: ObjectReference,
+    applyUp: () => Promise<unknown>,
+    dependents: DependentObject[]
+  ): Promise<string> {
+    const existing = await resolveObject(client, object);
+    const definition = existing ? await getObjectDefinition(client, object, existing) : undefined;
+    await applyUp();
+
+    if (!existing) {
+      return `-- ${object.type} ${object.name} did not exist; there is nothing to revert.`;
+    }
+    if (!definition) {
+      return [
+        `-- ${object.type} ${object.name} cannot be recreated automatically.`,
+        '-- Write the statements that restore it here.',
+      ].join('\n');
+    }
+    if (dependents.length === 0) {
+      return definition;
+    }
+    return [
+      `${definition.replace(/;$/, '')};`,
+      '-- Objects dropped by CASCADE are not restored:',
+      ...dependents.map(dependent => `--   ${dependent.type} ${dependent.identity}`),
+    ].join('\n');
+  }
+
+  private checkObjectType(type: ObjectType): void {
+    if (!OBJECT_TYPES.includes(type)) {
+      throw new Error(`Unknown object type '${type}'. Expected one of: ${OBJECT_TYPES.join(', ')}`);
+    }
+  }
+
+  // Sequence bounds may exceed Number.MAX_SAFE_INTEGER, so digit strings are accepted as well
+  private formatInteger(name: string, value: number | string): string {
+    if (!(Number.isSafeInteger(value) || (typeof value === 'string' && /^-?\d+$/.test(value)))) {
+      throw new Error(`${name} must be an integer`);
+    }
+    return String(value);
+  }
+
+  private async executeDefinition(sql: string, options: ExecutionOptions, dryRun = false): Promise<DefinitionResult> {
+    options.statements?.push(sql);
+    return this.dbManager.executeWithConnection(async client => {
+      try {
+        await this.runInTransaction(client, () => client.query(singleStatement(sql)), options, dryRun);
+        return { sql, dryRun, wouldSucceed: true };
+      } catch (error) {
+        if (!dryRun) {
+          throw error;
+        }
+        return {
+          sql,
+          dryRun,
+          wouldSucceed: false,
+          error: error instanceof Error ? error.message : String(error),
+          errorDetails: extractPostgresErrorDetails(error, sql),
+        };
+      }
+    }, options);
+  }
+
+  private createDefinitionResponse(message: string, result: DefinitionResult): CallToolResult {
+    const payload = result.dryRun
+      ? {
+          dryRun: true,
+          wouldSucceed: result.wouldSucceed,
+          error: result.error,
+          ...result.errorDetails,
+          sql: result.sql,
+        }
+      : { message, sql: result.sql };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(payload, null, 2),
+        },
+      ],
+      isError: false,
+    };
+  }
+
+  // Runs nothing but a plain EXPLAIN, and only for statements that have a plan
+  private async createPreviewResponse(sql: string, options: ExecutionOptions): Promise<CallToolResult> {
+    let plan: PlanNode | undefined;
+    if (EXPLAINABLE_STATEMENT.test(stripComments(sql))) {
+      const explainSql = buildExplainStatement(sql);
+      const result = await this.dbManager.executeWithConnection(
+        client => this.runReadOnly(client, () => client.query(singleStatement(explainSql)), options),
+        options
+      );
+      plan = result.rows[0]['QUERY PLAN'][0].Plan;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ preview: true, sql, plan }, null, 2),
+        },
+      ],
+      isError: false,
+    };
+  }
+
+  private createDryRunResponse(result: QueryResult): CallToolResult {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              dryRun: true,
+              command: result.command,
+              rowCount: result.rowCount,
+              sampleRows: result.rows.slice(0, DRY_RUN_SAMPLE_SIZE),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+      isError: false,
+    };
+  }
 }
@@ -0,0 +1,351 @@
+import { ClientBase } from 'pg';
+
+import { USER_SCHEMA_FILTER } from './catalog.js';
+
+export const DEFAULT_LONG_RUNNING_THRESHOLD = 60000;
+export const DEFAULT_HEALTH_REPORT_LIMIT = 20;
+
+export const HEALTH_CHECKS = ['bloat', 'vacuum', 'replication', 'cacheHitRatio', 'databaseSizes'] as const;
+
+export type HealthCheck = (typeof HEALTH_CHECKS)[number];
+
+export interface Session {
+  pid: number;
+  user: string;
+  application: string;
+  clientAddress: string | null;
+  state: string | null;
+  waitEventType: string | null;
+  waitEvent: string | null;
+  transactionStart: string | null;
+  // Time spent in the current state, such as running the current query or idling inside a transaction
+  durationMs: number;
+  query: string;
+}
+
+export interface LockWait {
+  lockType: string;
+  mode: string;
+  relation: string | null;
+}
+
+export interface LockChainNode extends Session {
+  waitingFor?: LockWait;
+  blocks: LockChainNode[];
+}
+
+export interface BloatEstimate {
+  schema: string;
+  table: string;
+  index?: string;
+  sizeBytes: number;
+  bloatBytes: number;
+  bloatRatio: number;
+}
+
+export interface VacuumStatus {
+  schema: string;
+  table: string;
+  liveRows: number;
+  deadRows: number;
+  modifiedSinceAnalyze: number;
+  lastVacuum: string | null;
+  lastAnalyze: string | null;
+  needsVacuum: boolean;
+  needsAnalyze: boolean;
+}
+
+export interface DatabaseSize {
+  database: string;
+  sizeBytes: number;
+  current: boolean;
+}
+
+const SESSION_COLUMNS = `a.pid, a.usename AS user, a.application_name AS application,
+  a.client_addr::text AS "clientAddress", a.state, a.wait_event_type AS "waitEventType", a.wait_event AS "waitEvent",
+  a.xact_start AS "transactionStart",
+  floor(EXTRACT(EPOCH FROM now() - coalesce(a.state_change, a.backend_start)) * 1000)::float8 AS "durationMs",
+  a.query`;
+
+const toSession = (row: any): Session => ({
+  ...row,
+  transactionStart: row.transactionStart ? new Date(row.transactionStart).toISOString() : null,
+});
+
+// Client sessions connected to the current database, longest in their current state first
+export const listSessions = async (client: ClientBase, includeIdle = false): Promise<Session[]> => {
+  const result = await client.query(
+    `SELECT ${SESSION_COLUMNS}
+     FROM pg_stat_activity a
+     WHERE a.datname = current_database()
+       AND a.backend_type = 'client backend'
+       AND a.pid <> pg_backend_pid()
+       AND ($1 OR a.state IS DISTINCT FROM 'idle')
+     ORDER BY "durationMs" DESC`,
+    [includeIdle]
+  );
+
+  return result.rows.map(toSession);
+};
+
+export const getSession = async (client: ClientBase, pid: number): Promise<Session | undefined> => {
+  const result = await client.query(
+    `SELECT ${SESSION_COLUMNS}
+     FROM pg_stat_activity a
+     WHERE a.pid = $1 AND a.datname = current_database() AND a.pid <> pg_backend_pid()`,
+    [pid]
+  );
+
+  return result.rows.map(toSession)[0];
+};
+
+// Sessions of the current database that wait on a lock or hold one that others wait on, as trees rooted at the
+// sessions that block others without being blocked themselves
+export const listLockChains = async (client: ClientBase): Promise<LockChainNode[]> => {
+  const result = await client.query(
+    `SELECT ${SESSION_COLUMNS}, blocking."blockedBy",
+       (SELECT json_build_object('lockType', l.locktype, 'mode', l.mode, 'relation', l.relation::regclass::text)
+        FROM pg_locks l
+        WHERE l.pid = a.pid AND NOT l.granted
+        LIMIT 1) AS "waitingFor"
+     FROM pg_stat_activity a
+     CROSS JOIN LATERAL (SELECT pg_blocking_pids(a.pid) AS "blockedBy") blocking
+     WHERE a.datname = current_database() AND a.pid <> pg_backend_pid()`
+  );
+
+  const sessions = new Map<number, any>(result.rows.map(row => [row.pid, row]));
+  const blockerPids = new Set(result.rows.flatMap(row => row.blockedBy as number[]));
+
+  // A deadlock that has not been detected yet forms a cycle, so each session appears at most once
+  const visited = new Set<number>();
+  const buildNode = (pid: number): LockChainNode | undefined => {
+    const row = sessions.get(pid);
+    if (!row || visited.has(pid)) {
+      return undefined;
+    }
+    visited.add(pid);
+
+    const { blockedBy, waitingFor, ...session } = row;
+    const blocks = [...sessions.values()]
+      .filter(other => other.blockedBy.includes(pid))
+      .map(other => buildNode(other.pid))
+      .filter((node): node is LockChainNode => node !== undefined);
+    return { ...toSession(session), waitingFor: waitingFor ?? undefined, blocks };
+  };
+
+  const roots = [...blockerPids].filter(pid => sessions.get(pid)?.blockedBy.length === 0);
+  const chains = roots.map(buildNode).filter((node): node is LockChainNode => node !== undefined);
+
+  // Sessions blocked only by a cycle, or by a session outside the current database, have no root above
+  for (const row of sessions.values()) {
+    if (row.blockedBy.length > 0 && !visited.has(row.pid)) {
+      const node = buildNode(row.pid);
+      if (node) {
+        chains.push(node);
+      }
+    }
+  }
+
+  return chains;
+};
+
+// Rough estimate comparing each table's size with the pages its live rows would need, using the average row
+// width from pg_stats. Tables without statistics are left out.
+export const estimateTableBloat = async (client: ClientBase, limit: number): Promise<BloatEstimate[]> => {
+  const result = await client.query(
+    `WITH tables AS (
+       SELECT n.nspname AS schema, c.relname AS table, c.relpages, c.reltuples::numeric AS reltuples,
+         current_setting('block_size')::numeric AS block_size,
+         coalesce(
+           (SELECT option_value::int FROM pg_options_to_table(c.reloptions) WHERE option_name = 'fillfactor'),
+           100
+         ) AS fillfactor,
+         (SELECT sum((1 - s.null_frac) * s.avg_width)::numeric
+          FROM pg_stats s
+          WHERE s.schemaname = n.nspname AND s.tablename = c.relname) AS row_width
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'm') AND c.relpages > 0 AND ${USER_SCHEMA_FILTER}
+     ),
+     estimates AS (
+       SELECT schema, "table", relpages * block_size AS size_bytes,
+         -- 24 bytes of tuple header and a 4-byte line pointer per row, 24 bytes of header per page
+         greatest(relpages - ceil(reltuples * (row_width + 28) / ((block_size - 24) * fillfactor / 100)), 0)
+           * block_size AS bloat_bytes
+       FROM tables
+       WHERE row_width IS NOT NULL
+     )
+     SELECT schema, "table", size_bytes::float8 AS "sizeBytes", bloat_bytes::float8 AS "bloatBytes",
+       round(bloat_bytes / size_bytes, 2)::float8 AS "bloatRatio"
+     FROM estimates
+     WHERE bloat_bytes > 0
+     ORDER BY bloat_bytes DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows;
+};
+
+// Rough estimate for B-tree indexes on plain columns, comparing each index's size with the leaf pages its entries
+// would need at the default fill factor. Expression and partial indexes are left out.
+export const estimateIndexBloat = async (client: ClientBase, limit: number): Promise<BloatEstimate[]> => {
+  const result = await client.query(
+    `WITH indexes AS (
+       SELECT n.nspname AS schema, t.relname AS table, i.relname AS index, i.relpages,
+         i.reltuples::numeric AS reltuples,
+         current_setting('block_size')::numeric AS block_size,
+         (SELECT sum(s.avg_width)
+          FROM unnest(ix.indkey) k(attnum)
+          JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+          JOIN pg_stats s
+            ON s.schemaname = n.nspname AND s.tablename = t.relname AND s.attname = a.attname) AS key_width
+       FROM pg_index ix
+       JOIN pg_class i ON i.oid = ix.indexrelid
+       JOIN pg_class t ON t.oid = ix.indrelid
+       JOIN pg_namespace n ON n.oid = t.relnamespace
+       JOIN pg_am am ON am.oid = i.relam
+       WHERE am.amname = 'btree' AND ix.indexprs IS NULL AND ix.indpred IS NULL AND i.relpages > 1
+         AND ${USER_SCHEMA_FILTER}
+     ),
+     estimates AS (
+       SELECT schema, "table", index, relpages * block_size AS size_bytes,
+         -- 8 bytes of index tuple header and a 4-byte line pointer per entry, 40 bytes of header per page,
+         -- 90% fill factor, plus the metapage
+         greatest(relpages - 1 - ceil(reltuples * (key_width + 12) / ((block_size - 40) * 0.9)), 0)
+           * block_size AS bloat_bytes
+       FROM indexes
+       WHERE key_width IS NOT NULL
+     )
+     SELECT schema, "table", index, size_bytes::float8 AS "sizeBytes", bloat_bytes::float8 AS "bloatBytes",
+       round(bloat_bytes / size_bytes, 2)::float8 AS "bloatRatio"
+     FROM estimates
+     WHERE bloat_bytes > 0
+     ORDER BY bloat_bytes DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows;
+};
+
+// Tables past the autovacuum or autoanalyze thresholds, or never analyzed, most dead rows first.
+// Per-table autovacuum settings are not taken into account.
+export const listVacuumStaleness = async (client: ClientBase, limit: number): Promise<VacuumStatus[]> => {
+  const result = await client.query(
+    `SELECT * FROM (
+       SELECT schemaname AS schema, relname AS table, n_live_tup AS "liveRows", n_dead_tup AS "deadRows",
+         n_mod_since_analyze AS "modifiedSinceAnalyze",
+         greatest(last_vacuum, last_autovacuum) AS "lastVacuum",
+         greatest(last_analyze, last_autoanalyze) AS "lastAnalyze",
+         n_dead_tup > current_setting('autovacuum_vacuum_threshold')::int
+           + current_setting('autovacuum_vacuum_scale_factor')::float8 * n_live_tup AS "needsVacuum",
+         n_mod_since_analyze > current_setting('autovacuum_analyze_threshold')::int
+           + current_setting('autovacuum_analyze_scale_factor')::float8 * n_live_tup AS "needsAnalyze"
+       FROM pg_stat_user_tables
+     ) stats
+     WHERE "needsVacuum" OR "needsAnalyze" OR ("lastAnalyze" IS NULL AND "liveRows" > 0)
+     ORDER BY "deadRows" DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows.map(row => ({
+    ...row,
+    liveRows: Number(row.liveRows),
+    deadRows: Number(row.deadRows),
+    modifiedSinceAnalyze: Number(row.modifiedSinceAnalyze),
+    lastVacuum: row.lastVacuum ? new Date(row.lastVacuum).toISOString() : null,
+    lastAnalyze: row.lastAnalyze ? new Date(row.lastAnalyze).toISOString() : null,
+  }));
+};
+
+// On a primary, the standbys and replication slots it streams to; on a standby, how far replay is behind
+export const getReplicationStatus = async (client: ClientBase): Promise<Record<string, unknown>> => {
+  const { standby } = (await client.query('SELECT pg_is_in_recovery() AS standby')).rows[0];
+
+  if (standby) {
+    const result = await client.query(
+      `SELECT floor(EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()) * 1000)::float8 AS "replayLagMs",
+         pg_wal_lsn_diff(pg_last_wal_receive_lsn(), pg_last_wal_replay_lsn())::float8 AS "replayLagBytes"`
+    );
+    return { role: 'standby', ...result.rows[0] };
+  }
+
+  const replicas = await client.query(
+    `SELECT application_name AS application, client_addr::text AS "clientAddress", state, sync_state AS "syncState",
+       pg_wal_lsn_diff(pg_current_wal_lsn(), replay_lsn)::float8 AS "replayLagBytes",
+       floor(EXTRACT(EPOCH FROM replay_lag) * 1000)::float8 AS "replayLagMs"
+     FROM pg_stat_replication
+     ORDER BY application_name`
+  );
+  const slots = await client.query(
+    `SELECT slot_name AS slot, slot_type AS type, active,
+       pg_wal_lsn_diff(pg_current_wal_lsn(), restart_lsn)::float8 AS "retainedWalBytes"
+     FROM pg_replication_slots
+     ORDER BY slot_name`
+  );
+
+  return { role: 'primary', replicas: replicas.rows, slots: slots.rows };
+};
+
+// Share of block reads served from shared buffers since statistics were last reset
+export const getCacheHitRatios = async (client: ClientBase): Promise<Record<string, number | null>> => {
+  const result = await client.query(
+    `SELECT
+       (SELECT round(sum(blks_hit) / nullif(sum(blks_hit + blks_read), 0), 4)::float8
+        FROM pg_stat_database WHERE datname = current_database()) AS database,
+       (SELECT round(sum(heap_blks_hit) / nullif(sum(heap_blks_hit + heap_blks_read), 0), 4)::float8
+        FROM pg_statio_user_tables) AS tables,
+       (SELECT round(sum(idx_blks_hit) / nullif(sum(idx_blks_hit + idx_blks_read), 0), 4)::float8
+        FROM pg_statio_user_indexes) AS indexes`
+  );
+
+  return result.rows[0];
+};
+
+// Sizes of the databases on the server that the current user can connect to
+export const listDatabaseSizes = async (client: ClientBase): Promise<DatabaseSize[]> => {
+  const result = await client.query(
+    `SELECT datname AS database, pg_database_size(datname)::float8 AS "sizeBytes",
+       datname = current_database() AS current
+     FROM pg_database
+     WHERE datallowconn AND has_database_privilege(datname, 'CONNECT')
+     ORDER BY 2 DESC`
+  );
+
+  return result.rows;
+};
+
+export const runHealthChecks = async (
+  client: ClientBase,
+  checks: readonly HealthCheck[],
+  limit: number
+): Promise<Partial<Record<HealthCheck, unknown>>> => {
+  const report: Partial<Record<HealthCheck, unknown>> = {};
+
+  for (const check of checks) {
+    switch (check) {
+      case 'bloat':
+        report.bloat = {
+          tables: await estimateTableBloat(client, limit),
+          indexes: await estimateIndexBloat(client, limit),
+        };
+        break;
+      case 'vacuum':
+        report.vacuum = await listVacuumStaleness(client, limit);
+        break;
+      case 'replication':
+        report.replication = await getReplicationStatus(client);
+        break;
+      case 'cacheHitRatio':
+        report.cacheHitRatio = await getCacheHitRatios(client);
+        break;
+      case 'databaseSizes':
+        report.databaseSizes = await listDatabaseSizes(client);
+        break;
+    }
+  }
+
+  return report;
+};
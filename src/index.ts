@@ -9,9 +9,10 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { loadConfig } from './config.js';
+import { AuditLogger } from './audit.js';
+import { getConfigFilePath, loadConfig, watchConfigFile } from './config.js';
 import { DatabaseManager } from './database.js';
-import { createToolDefinitions } from './tools.js';
+import { annotateToolAccess, createToolDefinitions } from './tools.js';
 import { ToolHandlers } from './handlers.js';
 import { ResourceHandlers } from './resources.js';
 
@@ -22,15 +23,20 @@ const server = new Server(
   },
   {
     capabilities: {
-      resources: {},
-      tools: {},
+      resources: {
+        listChanged: true,
+      },
+      tools: {
+        listChanged: true,
+      },
     },
   }
 );
 
 const config = loadConfig();
 const dbManager = new DatabaseManager(config);
-const toolHandlers = new ToolHandlers(dbManager, config);
+const auditLogger = new AuditLogger(dbManager, config.audit);
+const toolHandlers = new ToolHandlers(dbManager, config, auditLogger);
 const resourceHandlers = new ResourceHandlers(dbManager);
 
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
@@ -44,14 +50,42 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   const databaseNames = Object.keys(dbManager.getDatabases());
   return {
-    tools: createToolDefinitions(databaseNames),
+    tools: annotateToolAccess(
+      createToolDefinitions(databaseNames),
+      dbManager.getCurrentDatabase(),
+      dbManager.getAccessLevel()
+    ),
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  return toolHandlers.handleToolCall(request);
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const result = await toolHandlers.handleToolCall(request, extra);
+
+  // Tool availability depends on the current database's access level
+  if (request.params.name === 'switchDatabase' && !result.isError) {
+    await server.sendToolListChanged();
+  }
+
+  return result;
 });
 
+const configPath = getConfigFilePath();
+if (configPath) {
+  watchConfigFile(configPath, async newConfig => {
+    const changes = dbManager.reload(newConfig);
+    auditLogger.updateConfig(newConfig.audit);
+    toolHandlers.updateConfig(newConfig);
+    console.error(
+      `Reloaded config from '${configPath}' (added: ${changes.added.join(', ') || 'none'}, ` +
+        `removed: ${changes.removed.join(', ') || 'none'}, changed: ${changes.changed.join(', ') || 'none'})`
+    );
+
+    // The database enums in the tool schemas and the resource list both depend on the configured databases
+    await server.sendToolListChanged();
+    await server.sendResourceListChanged();
+  });
+}
+
 async function runServer() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -0,0 +1,351 @@
+import { ClientBase } from 'pg';
+
+import { USER_SCHEMA_FILTER } from './catalog.js';
+import { buildExplainStatement, listScannedRelations, PlanNode } from './queryPlan.js';
+import { quoteIdentifier, singleStatement } from './sql.js';
+
+export const DEFAULT_CANDIDATE_LIMIT = 10;
+// Tables smaller than this are cheap to scan and never get candidates
+export const MIN_TABLE_ROWS = 10000;
+// Columns with fewer distinct values are rarely selective enough for a B-tree index to beat a scan
+export const MIN_DISTINCT_VALUES = 100;
+// Number of the most expensive pg_stat_statements entries searched for filters on candidate columns
+const STATEMENT_SAMPLE_SIZE = 100;
+// Candidates proposed per table when no statement filters on its columns
+const UNREFERENCED_CANDIDATES_PER_TABLE = 1;
+// PostgreSQL truncates identifiers to this many bytes
+const MAX_IDENTIFIER_LENGTH = 63;
+
+export interface AdvisorFilter {
+  schemas?: string[];
+  table?: string;
+}
+
+export interface TableScanStats {
+  schema: string;
+  table: string;
+  seqScans: number;
+  seqRowsRead: number;
+  indexScans: number;
+  liveRows: number;
+}
+
+export interface ColumnStats {
+  schema: string;
+  table: string;
+  column: string;
+  distinctValues: number;
+  nullFraction: number;
+}
+
+export interface StatementStats {
+  query: string;
+  calls: number;
+  totalTimeMs: number;
+}
+
+export interface CandidateValidation {
+  method: 'hypopg';
+  costBefore: number;
+  costAfter: number;
+  usesIndex: boolean;
+}
+
+export interface IndexCandidate {
+  schema: string;
+  table: string;
+  columns: string[];
+  reasons: string[];
+  statements: StatementStats[];
+  // Arguments for the createIndex tool
+  createIndex: { tableName: string; indexName: string; columns: string[] };
+  validation?: CandidateValidation;
+}
+
+export interface UnusedIndex {
+  schema: string;
+  table: string;
+  index: string;
+  sizeBytes: number;
+  definition: string;
+}
+
+export interface DuplicateIndex {
+  schema: string;
+  table: string;
+  indexes: string[];
+  definition: string;
+}
+
+const matchesFilter = (filter: AdvisorFilter, schemaColumn: string, tableColumn: string, params: unknown[]): string => {
+  params.push(filter.schemas?.length ? filter.schemas : null, filter.table ?? null);
+  const schemas = `$${params.length - 1}`;
+  const table = `$${params.length}`;
+  return `(${schemas}::text[] IS NULL OR ${schemaColumn} = ANY(${schemas}::text[]))
+    AND (${table}::text IS NULL OR ${tableColumn} = ${table} OR ${schemaColumn} || '.' || ${tableColumn} = ${table})`;
+};
+
+// Large tables that are read by sequential scans, most rows read first
+export const loadTableScanStats = async (client: ClientBase, filter: AdvisorFilter): Promise<TableScanStats[]> => {
+  const params: unknown[] = [MIN_TABLE_ROWS];
+  const result = await client.query(
+    `SELECT schemaname AS schema, relname AS table, seq_scan AS "seqScans", seq_tup_read AS "seqRowsRead",
+       coalesce(idx_scan, 0) AS "indexScans", n_live_tup AS "liveRows"
+     FROM pg_stat_user_tables
+     WHERE seq_scan > 0 AND n_live_tup >= $1
+       AND ${matchesFilter(filter, 'schemaname', 'relname', params)}
+     ORDER BY seq_tup_read DESC`,
+    params
+  );
+
+  return result.rows.map(row => ({
+    ...row,
+    seqScans: Number(row.seqScans),
+    seqRowsRead: Number(row.seqRowsRead),
+    indexScans: Number(row.indexScans),
+    liveRows: Number(row.liveRows),
+  }));
+};
+
+// Columns of the given tables with enough distinct values to be selective, skipping columns that already lead an index
+export const loadSelectiveColumns = async (client: ClientBase, tables: TableScanStats[]): Promise<ColumnStats[]> => {
+  if (tables.length === 0) {
+    return [];
+  }
+
+  const result = await client.query(
+    `SELECT s.schemaname AS schema, s.tablename AS table, s.attname AS column, s.null_frac AS "nullFraction",
+       CASE WHEN s.n_distinct >= 0 THEN s.n_distinct ELSE -s.n_distinct * t.n_live_tup END AS "distinctValues"
+     FROM pg_stats s
+     JOIN pg_stat_user_tables t ON t.schemaname = s.schemaname AND t.relname = s.tablename
+     WHERE (s.schemaname, s.tablename) IN (SELECT * FROM unnest($1::text[], $2::text[]))
+       AND NOT EXISTS (
+         SELECT 1
+         FROM pg_index ix
+         JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = ix.indkey[0]
+         WHERE ix.indrelid = t.relid AND a.attname = s.attname
+       )
+     ORDER BY "distinctValues" DESC`,
+    [tables.map(table => table.schema), tables.map(table => table.table)]
+  );
+
+  return result.rows
+    .map(row => ({ ...row, distinctValues: Number(row.distinctValues), nullFraction: Number(row.nullFraction) }))
+    .filter(column => column.distinctValues >= MIN_DISTINCT_VALUES);
+};
+
+// The most expensive statements of the current database, or undefined when pg_stat_statements is not available
+export const loadTopStatements = async (client: ClientBase): Promise<StatementStats[] | undefined> => {
+  const installed = await client.query(`SELECT 1 FROM pg_extension WHERE extname = 'pg_stat_statements'`);
+  if (installed.rowCount === 0) {
+    return undefined;
+  }
+
+  // Reading the view fails when the library is not in shared_preload_libraries
+  await client.query('SAVEPOINT mcp_index_advisor');
+  try {
+    const result = await client.query(
+      `SELECT s.query, s.calls, s.total_exec_time AS "totalTimeMs"
+       FROM pg_stat_statements s
+       JOIN pg_database d ON d.oid = s.dbid
+       WHERE d.datname = current_database()
+       ORDER BY s.total_exec_time DESC
+       LIMIT $1`,
+      [STATEMENT_SAMPLE_SIZE]
+    );
+    await client.query('RELEASE SAVEPOINT mcp_index_advisor');
+    return result.rows.map(row => ({ ...row, calls: Number(row.calls), totalTimeMs: Number(row.totalTimeMs) }));
+  } catch (error) {
+    await client.query('ROLLBACK TO SAVEPOINT mcp_index_advisor');
+    return undefined;
+  }
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whether the query mentions the table and compares the column, e.g. `email = $1` or `"createdAt" >= $2`
+const filtersOn = (query: string, column: ColumnStats): boolean => {
+  const table = new RegExp(`(^|[^\\w"])"?${escapeRegExp(column.table)}"?($|[^\\w"])`, 'i');
+  const name = escapeRegExp(column.column);
+  const predicate = new RegExp(
+    `(^|[^\\w"])("${name}"|${name})\\s*(=|<|>|<=|>=|\\bIN\\b|\\bBETWEEN\\b|\\bLIKE\\b|\\bILIKE\\b|\\bANY\\b)`,
+    'i'
+  );
+  return table.test(query) && predicate.test(query);
+};
+
+const buildIndexName = (table: string, columns: string[]): string =>
+  `${table}_${columns.join('_')}_idx`.slice(0, MAX_IDENTIFIER_LENGTH);
+
+// Proposes single-column indexes on selective columns of sequentially scanned tables. Columns that `sql` filters on
+// rank first, followed by those the most expensive statements filter on. Tables without such columns, or every
+// table when neither is available, get their most selective column, ordered by the rows their scans read.
+export const proposeIndexes = (
+  tables: TableScanStats[],
+  columns: ColumnStats[],
+  statements: StatementStats[] | undefined,
+  sql?: string,
+  limit: number = DEFAULT_CANDIDATE_LIMIT
+): IndexCandidate[] => {
+  const ranked: Array<{ candidate: IndexCandidate; inSql: boolean; statementTime: number; seqRowsRead: number }> = [];
+
+  for (const table of tables) {
+    const tableColumns = columns
+      .filter(column => column.schema === table.schema && column.table === table.table)
+      .map(column => ({
+        column,
+        inSql: !!sql && filtersOn(sql, column),
+        filtering: (statements || []).filter(statement => filtersOn(statement.query, column)),
+      }));
+    const referenced = tableColumns.filter(({ inSql, filtering }) => inSql || filtering.length > 0);
+    const chosen = referenced.length > 0 ? referenced : tableColumns.slice(0, UNREFERENCED_CANDIDATES_PER_TABLE);
+
+    for (const { column, inSql, filtering } of chosen) {
+      const reasons = [
+        `${table.seqScans} sequential scans read ${table.seqRowsRead} rows of ${table.liveRows} live rows, ` +
+          `against ${table.indexScans} index scans`,
+        `About ${Math.round(column.distinctValues)} distinct values (${Math.round(column.nullFraction * 100)}% null)`,
+      ];
+      const statementTime = filtering.reduce((total, statement) => total + statement.totalTimeMs, 0);
+      if (inSql) {
+        reasons.push('Filtered on by the given sql');
+      }
+      if (filtering.length > 0) {
+        const totalTime = Math.round(statementTime);
+        reasons.push(`Filtered on by ${filtering.length} of the most expensive statements (${totalTime} ms total)`);
+      }
+
+      ranked.push({
+        candidate: {
+          schema: table.schema,
+          table: table.table,
+          columns: [column.column],
+          reasons,
+          statements: filtering,
+          createIndex: {
+            tableName: `${table.schema}.${table.table}`,
+            indexName: buildIndexName(table.table, [column.column]),
+            columns: [column.column],
+          },
+        },
+        inSql,
+        statementTime,
+        seqRowsRead: table.seqRowsRead,
+      });
+    }
+  }
+
+  return ranked
+    .sort(
+      (a, b) =>
+        Number(b.inSql) - Number(a.inSql) || b.statementTime - a.statementTime || b.seqRowsRead - a.seqRowsRead
+    )
+    .slice(0, limit)
+    .map(entry => entry.candidate);
+};
+
+// Indexes never scanned since statistics were last reset. Indexes backing constraints are left out, since they are
+// needed regardless of scans.
+export const findUnusedIndexes = async (client: ClientBase, filter: AdvisorFilter): Promise<UnusedIndex[]> => {
+  const params: unknown[] = [];
+  const result = await client.query(
+    `SELECT s.schemaname AS schema, s.relname AS table, s.indexrelname AS index,
+       pg_relation_size(s.indexrelid) AS "sizeBytes", pg_get_indexdef(s.indexrelid) AS definition
+     FROM pg_stat_user_indexes s
+     JOIN pg_index ix ON ix.indexrelid = s.indexrelid
+     WHERE s.idx_scan = 0
+       AND NOT ix.indisunique
+       AND NOT EXISTS (SELECT 1 FROM pg_constraint c WHERE c.conindid = s.indexrelid)
+       AND ${matchesFilter(filter, 's.schemaname', 's.relname', params)}
+     ORDER BY pg_relation_size(s.indexrelid) DESC`,
+    params
+  );
+
+  return result.rows.map(row => ({ ...row, sizeBytes: Number(row.sizeBytes) }));
+};
+
+// Groups of indexes on the same table with the same access method, columns, operator classes, expressions and predicate
+export const findDuplicateIndexes = async (client: ClientBase, filter: AdvisorFilter): Promise<DuplicateIndex[]> => {
+  const params: unknown[] = [];
+  const result = await client.query(
+    `SELECT n.nspname AS schema, t.relname AS table, array_agg(i.relname::text ORDER BY i.relname) AS indexes,
+       min(pg_get_indexdef(ix.indexrelid)) AS definition
+     FROM pg_index ix
+     JOIN pg_class i ON i.oid = ix.indexrelid
+     JOIN pg_class t ON t.oid = ix.indrelid
+     JOIN pg_namespace n ON n.oid = t.relnamespace
+     WHERE ${USER_SCHEMA_FILTER}
+       AND ${matchesFilter(filter, 'n.nspname', 't.relname', params)}
+     GROUP BY n.nspname, t.relname, ix.indrelid, i.relam, ix.indkey::text, ix.indclass::text,
+       coalesce(pg_get_expr(ix.indexprs, ix.indrelid), ''), coalesce(pg_get_expr(ix.indpred, ix.indrelid), '')
+     HAVING count(*) > 1
+     ORDER BY 1, 2`,
+    params
+  );
+
+  return result.rows;
+};
+
+export const loadStatsResetTime = async (client: ClientBase): Promise<string | null> => {
+  const result = await client.query(
+    'SELECT stats_reset AS "statsReset" FROM pg_stat_database WHERE datname = current_database()'
+  );
+  const statsReset = result.rows[0]?.statsReset;
+  return statsReset ? new Date(statsReset).toISOString() : null;
+};
+
+export const isHypopgInstalled = async (client: ClientBase): Promise<boolean> => {
+  const result = await client.query(`SELECT 1 FROM pg_extension WHERE extname = 'hypopg'`);
+  return (result.rowCount ?? 0) > 0;
+};
+
+const explainPlan = async (client: ClientBase, sql: string): Promise<PlanNode> => {
+  const result = await client.query(singleStatement(buildExplainStatement(sql, { verbose: true })));
+  return result.rows[0]['QUERY PLAN'][0].Plan;
+};
+
+const planUsesIndex = (node: PlanNode, indexName: string): boolean =>
+  node['Index Name'] === indexName || (node.Plans || []).some(child => planUsesIndex(child, indexName));
+
+// Compares the estimated cost of `sql` before and after adding each candidate as a hypothetical hypopg index, so
+// nothing is built and no lock is taken. Only candidates on tables that the statement reads by sequential scan are
+// validated.
+export const validateCandidates = async (
+  client: ClientBase,
+  candidates: IndexCandidate[],
+  sql: string,
+  statements?: string[]
+): Promise<void> => {
+  statements?.push(buildExplainStatement(sql, { verbose: true }));
+  const before = await explainPlan(client, sql);
+  const scanned = listScannedRelations(before);
+
+  for (const candidate of candidates) {
+    const table = `${quoteIdentifier(candidate.schema)}.${quoteIdentifier(candidate.table)}`;
+    if (!scanned.includes(table)) {
+      continue;
+    }
+
+    const columns = candidate.columns.map(quoteIdentifier).join(', ');
+    const definition = `CREATE INDEX ${quoteIdentifier(candidate.createIndex.indexName)} ON ${table} (${columns})`;
+    let indexName: string;
+    let after: PlanNode;
+
+    try {
+      statements?.push(definition);
+      const created = await client.query('SELECT indexname FROM hypopg_create_index($1)', [definition]);
+      indexName = created.rows[0].indexname;
+      after = await explainPlan(client, sql);
+    } finally {
+      // Hypothetical indexes live in backend memory, not in the transaction
+      await client.query('SELECT hypopg_reset()');
+    }
+
+    candidate.validation = {
+      method: 'hypopg',
+      costBefore: before['Total Cost'],
+      costAfter: after['Total Cost'],
+      usesIndex: planUsesIndex(after, indexName),
+    };
+  }
+};
@@ -0,0 +1,242 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ClientBase } from 'pg';
+
+import { quoteIdentifier, quoteQualifiedName, splitQualifiedName, splitStatements } from './sql.js';
+
+export const DEFAULT_MIGRATIONS_TABLE = 'schema_migrations';
+
+// `20240131120000_create_table_users.up.sql` and its `.down.sql` counterpart
+const MIGRATION_FILE_PATTERN = /^(\d+)_(.+)\.(up|down)\.sql$/;
+
+// Statements that would end the transaction migrations run in
+const TRANSACTION_CONTROL_PATTERN = /^(BEGIN|START\s+TRANSACTION|COMMIT|END|ROLLBACK|ABORT|PREPARE\s+TRANSACTION)\b/i;
+
+// A double-quoted identifier or a bare word, as written in the SQL
+const IDENTIFIER = '("(?:[^"]|"")+"|[^\\s"(),;]+)';
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down?: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'missing';
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  status: MigrationState;
+  appliedAt?: string;
+  modified?: boolean;
+  reversible?: boolean;
+}
+
+export const compareVersions = (a: string, b: string): number => {
+  const difference = BigInt(a) - BigInt(b);
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+};
+
+export const checksum = (sql: string): string => createHash('sha256').update(sql).digest('hex');
+
+// A down migration holding only comments cannot be rolled back
+export const hasStatements = (sql: string | undefined): boolean =>
+  Boolean(sql && sql.replace(/--.*$/gm, '').replace(/;/g, '').trim().length > 0);
+
+// Migration SQL may hold several statements, so it cannot be sent as a single one. Transaction control is rejected
+// instead, since it would commit part of a migration, or of a dry run, on its own.
+export const checkTransactionControl = (sql: string): void => {
+  const statement = splitStatements(sql).find(candidate => TRANSACTION_CONTROL_PATTERN.test(candidate));
+  if (statement) {
+    throw new Error(`Migration SQL must not control the transaction it runs in, but contains '${statement}'`);
+  }
+};
+
+export const formatMigrationName = (description: string): string =>
+  description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60) || 'migration';
+
+// UTC timestamp with second precision, such as 20240131120000
+const formatVersion = (date: Date): string => date.toISOString().replace(/\D/g, '').slice(0, 14);
+
+export const readMigrations = async (directory: string): Promise<Migration[]> => {
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const migrations = new Map<string, Partial<Migration>>();
+  for (const file of files.sort()) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const [, version, name, direction] = match;
+    const migration = migrations.get(version) || { version, name };
+    if (migration.name !== name) {
+      throw new Error(`Migration version ${version} is used by both '${migration.name}' and '${name}'`);
+    }
+    migration[direction as 'up' | 'down'] = await readFile(join(directory, file), 'utf8');
+    migrations.set(version, migration);
+  }
+
+  return [...migrations.values()]
+    .map(migration => {
+      if (migration.up === undefined) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no up file`);
+      }
+      return { ...migration, checksum: checksum(migration.up) } as Migration;
+    })
+    .sort((a, b) => compareVersions(a.version, b.version));
+};
+
+// Files are created exclusively, so an existing migration is never overwritten. Versions taken in the same
+// second are bumped so each migration keeps a unique, ordered version.
+export const writeMigration = async (
+  directory: string,
+  description: string,
+  up: string,
+  down: string,
+  now: Date = new Date()
+): Promise<{ version: string; name: string; files: string[] }> => {
+  await mkdir(directory, { recursive: true });
+
+  const taken = new Set((await readMigrations(directory)).map(migration => migration.version));
+  let version = formatVersion(now);
+  while (taken.has(version)) {
+    version = String(BigInt(version) + 1n);
+  }
+
+  const name = formatMigrationName(description);
+  const files = [`${version}_${name}.up.sql`, `${version}_${name}.down.sql`];
+  await writeFile(join(directory, files[0]), `${up.trim()}\n`, { encoding: 'utf8', flag: 'wx' });
+  await writeFile(join(directory, files[1]), `${down.trim()}\n`, { encoding: 'utf8', flag: 'wx' });
+
+  return { version, name, files };
+};
+
+export const loadAppliedMigrations = async (client: ClientBase, table: string): Promise<AppliedMigration[]> => {
+  const { exists } = (
+    await client.query('SELECT to_regclass($1) IS NOT NULL AS exists', [quoteQualifiedName(table)])
+  ).rows[0];
+  if (!exists) {
+    return [];
+  }
+
+  const result = await client.query(
+    `SELECT version, name, checksum, applied_at AS "appliedAt" FROM ${quoteQualifiedName(table)}`
+  );
+  return result.rows
+    .map(row => ({ ...row, appliedAt: new Date(row.appliedAt).toISOString() }))
+    .sort((a, b) => compareVersions(a.version, b.version));
+};
+
+// The lock conflicts with itself, so concurrent applyMigrations and rollbackMigration calls run one at a time
+export const lockMigrationsTable = async (client: ClientBase, table: string): Promise<void> => {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS ${quoteQualifiedName(table)} (
+       version TEXT PRIMARY KEY,
+       name TEXT NOT NULL,
+       checksum TEXT NOT NULL,
+       applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+     )`
+  );
+  await client.query(`LOCK TABLE ${quoteQualifiedName(table)} IN SHARE ROW EXCLUSIVE MODE`);
+};
+
+export const recordMigration = async (client: ClientBase, table: string, migration: Migration): Promise<void> => {
+  await client.query(`INSERT INTO ${quoteQualifiedName(table)} (version, name, checksum) VALUES ($1, $2, $3)`, [
+    migration.version,
+    migration.name,
+    migration.checksum,
+  ]);
+};
+
+export const removeMigration = async (client: ClientBase, table: string, version: string): Promise<void> => {
+  await client.query(`DELETE FROM ${quoteQualifiedName(table)} WHERE version = $1`, [version]);
+};
+
+// Lists every migration file with whether it is applied, plus applied versions whose files no longer exist.
+// `modified` flags applied migrations whose up file changed after it was applied.
+export const describeMigrations = (migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] => {
+  const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+  const known = new Set(migrations.map(migration => migration.version));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const record = appliedByVersion.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      status: record ? 'applied' : 'pending',
+      appliedAt: record?.appliedAt,
+      modified: record ? record.checksum !== migration.checksum : undefined,
+      reversible: hasStatements(migration.down),
+    };
+  });
+
+  const missing: MigrationStatus[] = applied
+    .filter(migration => !known.has(migration.version))
+    .map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      status: 'missing',
+      appliedAt: migration.appliedAt,
+    }));
+
+  return [...statuses, ...missing].sort((a, b) => compareVersions(a.version, b.version));
+};
+
+// Derives the statement that undoes an ALTER TABLE for the operations that can be reverted without knowing the
+// table's previous state. Anything else gets a comment asking for the down migration to be written by hand.
+export const revertAlterTable = (tableName: string, operation: string, details: string): string => {
+  const table = quoteQualifiedName(tableName);
+  const statement = `${operation} ${details}`.trim().replace(/\s+/g, ' ');
+  const match = (pattern: string) => new RegExp(`^${pattern}`, 'i').exec(statement);
+
+  const constraint = match(`ADD CONSTRAINT ${IDENTIFIER}`);
+  if (constraint) {
+    return `ALTER TABLE ${table} DROP CONSTRAINT ${constraint[1]}`;
+  }
+
+  const column = match(`ADD (?:COLUMN )?(?:IF NOT EXISTS )?${IDENTIFIER}`);
+  if (column && !/^(PRIMARY|UNIQUE|CHECK|FOREIGN|EXCLUDE|CONSTRAINT)$/i.test(column[1])) {
+    return `ALTER TABLE ${table} DROP COLUMN ${column[1]}`;
+  }
+
+  const renamedTable = match(`RENAME TO ${IDENTIFIER}`);
+  if (renamedTable) {
+    // The new name stays in the table's schema
+    const parts = splitQualifiedName(tableName).map(quoteIdentifier);
+    const renamed = [...parts.slice(0, -1), renamedTable[1]].join('.');
+    return `ALTER TABLE ${renamed} RENAME TO ${parts[parts.length - 1]}`;
+  }
+
+  const renamed = match(`RENAME (COLUMN |CONSTRAINT )?${IDENTIFIER} TO ${IDENTIFIER}`);
+  if (renamed) {
+    return `ALTER TABLE ${table} RENAME ${(renamed[1] || '').toUpperCase()}${renamed[3]} TO ${renamed[2]}`;
+  }
+
+  return [
+    `-- ALTER TABLE ${tableName} ${statement} cannot be reverted automatically.`,
+    '-- Write the statements that undo it here.',
+  ].join('\n');
+};
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { FieldDef } from 'pg';
+
+export const DEFAULT_MAX_ROWS = 1000;
+export const DEFAULT_MAX_RESULT_BYTES = 1024 * 1024;
+
+export interface QueryPage {
+  rows: any[];
+  truncated: boolean;
+  truncatedBy?: 'rows' | 'bytes';
+}
+
+export interface FieldInfo {
+  name: string;
+  dataTypeID: number;
+}
+
+interface CursorToken {
+  sql: string;
+  offset: number;
+}
+
+const hashSql = (sql: string): string => createHash('sha256').update(sql).digest('hex').slice(0, 16);
+
+// Cursor tokens are opaque to the client and tied to the SQL they were issued for
+export const encodeCursor = (sql: string, offset: number): string => {
+  const token: CursorToken = { sql: hashSql(sql), offset };
+  return Buffer.from(JSON.stringify(token)).toString('base64url');
+};
+
+export const decodeCursor = (cursor: string, sql: string): number => {
+  let token: CursorToken;
+  try {
+    token = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new Error('Invalid cursor');
+  }
+
+  if (token.sql !== hashSql(sql) || !Number.isInteger(token.offset) || token.offset < 0) {
+    throw new Error('Cursor does not belong to this query');
+  }
+  return token.offset;
+};
+
+// Appended to values shortened to fit a row into maxResultBytes
+const TRUNCATED_VALUE_SUFFIX = '...[truncated]';
+
+// Shortens a row that alone exceeds `maxBytes`: each column gets an equal share of the bytes, and values serializing
+// to more than their share are cut to fit it as text. The result is close to `maxBytes`, not exactly within it.
+const truncateRow = (row: Record<string, unknown>, maxBytes: number): Record<string, unknown> => {
+  const columns = Object.keys(row);
+  const share = Math.floor(maxBytes / Math.max(columns.length, 1));
+
+  return Object.fromEntries(
+    columns.map(column => {
+      const value = row[column];
+      const serialized = JSON.stringify(value) ?? 'null';
+      // Leaves room for the quoted key, the value's quotes, the separators and the suffix
+      const budget = Math.max(share - Buffer.byteLength(JSON.stringify(column)) - TRUNCATED_VALUE_SUFFIX.length - 4, 0);
+      if (Buffer.byteLength(serialized) <= budget) {
+        return [column, value];
+      }
+
+      const text = typeof value === 'string' ? value : serialized;
+      const kept = Buffer.from(text).subarray(0, budget).toString('utf8');
+      return [column, `${kept}${TRUNCATED_VALUE_SUFFIX}`];
+    })
+  );
+};
+
+// Keeps at most `limit` rows and stops before the serialized page exceeds `maxBytes`
+export const truncateRows = (rows: any[], limit: number, maxBytes: number): QueryPage => {
+  const page: any[] = [];
+  let bytes = 0;
+
+  for (const row of rows) {
+    if (page.length >= limit) {
+      return { rows: page, truncated: true, truncatedBy: 'rows' };
+    }
+
+    bytes += Buffer.byteLength(JSON.stringify(row));
+    if (bytes > maxBytes) {
+      // A row too large on its own is shortened, so every page still returns a row and the cursor moves past it
+      return { rows: page.length > 0 ? page : [truncateRow(row, maxBytes)], truncated: true, truncatedBy: 'bytes' };
+    }
+    page.push(row);
+  }
+
+  return { rows: page, truncated: false };
+};
+
+export const describeFields = (fields: FieldDef[]): FieldInfo[] => {
+  return fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID }));
+};
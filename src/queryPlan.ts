@@ -0,0 +1,174 @@
+import { quoteIdentifier } from './sql.js';
+
+// Sequential scans reading at least this many rows are reported
+export const SEQ_SCAN_ROW_THRESHOLD = 10000;
+// Estimates off by at least this factor, in either direction, are reported
+export const ROW_ESTIMATE_FACTOR = 10;
+// Row-estimate misses below this many rows on both sides are too small to matter
+const ROW_ESTIMATE_MIN_ROWS = 100;
+// Nested loops running their inner side at least this many times are reported
+export const NESTED_LOOP_THRESHOLD = 1000;
+
+export interface ExplainOptions {
+  analyze?: boolean;
+  buffers?: boolean;
+  verbose?: boolean;
+}
+
+export type HotSpotKind = 'sequentialScan' | 'rowEstimate' | 'diskSort' | 'nestedLoop';
+
+export interface HotSpot {
+  kind: HotSpotKind;
+  node: string;
+  relation?: string;
+  detail: string;
+}
+
+// A node of the plan tree returned by EXPLAIN (FORMAT JSON), keyed by PostgreSQL's property names
+export type PlanNode = Record<string, any> & { 'Node Type': string; Plans?: PlanNode[] };
+
+export const buildExplainStatement = (sql: string, { analyze, buffers, verbose }: ExplainOptions = {}): string => {
+  const options = ['FORMAT JSON', analyze && 'ANALYZE', buffers && 'BUFFERS', verbose && 'VERBOSE'].filter(Boolean);
+  return `EXPLAIN (${options.join(', ')}) ${sql.trim().replace(/;\s*$/, '')}`;
+};
+
+const relationName = (node: PlanNode): string | undefined => {
+  const relation = node['Relation Name'];
+  if (!relation) {
+    return undefined;
+  }
+  return node['Schema'] ? `${node['Schema']}.${relation}` : relation;
+};
+
+// Quoted, and schema-qualified when the plan is VERBOSE, so it can be resolved with to_regclass
+const relationKey = (node: PlanNode): string | undefined => {
+  if (!node['Relation Name']) {
+    return undefined;
+  }
+  return [node['Schema'], node['Relation Name']].filter(Boolean).map(quoteIdentifier).join('.');
+};
+
+const analyzed = (node: PlanNode): boolean => node['Actual Loops'] !== undefined;
+
+// Rows the node produced over all loops, or the planner's estimate when the plan was not analyzed
+const totalRows = (node: PlanNode): number =>
+  analyzed(node) ? node['Actual Rows'] * node['Actual Loops'] : node['Plan Rows'];
+
+// Without ANALYZE a scan's Plan Rows only counts the rows left after its filter, so the table's size is used instead
+const checkSequentialScan = (node: PlanNode, relationRows: Record<string, number>): HotSpot | undefined => {
+  if (node['Node Type'] !== 'Seq Scan') {
+    return undefined;
+  }
+
+  const rowsRead = analyzed(node)
+    ? (node['Actual Rows'] + (node['Rows Removed by Filter'] || 0)) * node['Actual Loops']
+    : relationRows[relationKey(node) || ''] ?? node['Plan Rows'];
+  if (rowsRead < SEQ_SCAN_ROW_THRESHOLD) {
+    return undefined;
+  }
+
+  const verb = analyzed(node) ? 'read' : 'is estimated to read';
+  const filter = node['Filter'] ? ` with filter ${node['Filter']}` : '';
+  return {
+    kind: 'sequentialScan',
+    node: node['Node Type'],
+    relation: relationName(node),
+    detail: `Sequential scan ${verb} ${rowsRead} rows${filter}`,
+  };
+};
+
+const checkRowEstimate = (node: PlanNode): HotSpot | undefined => {
+  if (!analyzed(node) || node['Actual Loops'] === 0) {
+    return undefined;
+  }
+
+  const estimated = node['Plan Rows'];
+  const actual = node['Actual Rows'];
+  if (Math.max(estimated, actual) < ROW_ESTIMATE_MIN_ROWS) {
+    return undefined;
+  }
+  if (Math.max(estimated, actual) / Math.max(Math.min(estimated, actual), 1) < ROW_ESTIMATE_FACTOR) {
+    return undefined;
+  }
+
+  return {
+    kind: 'rowEstimate',
+    node: node['Node Type'],
+    relation: relationName(node),
+    detail: `Planner estimated ${estimated} rows per loop but got ${actual}`,
+  };
+};
+
+const checkDiskSort = (node: PlanNode): HotSpot | undefined => {
+  if (node['Sort Space Type'] !== 'Disk') {
+    return undefined;
+  }
+
+  const sortKey = (node['Sort Key'] || []).join(', ');
+  return {
+    kind: 'diskSort',
+    node: node['Node Type'],
+    detail: `${node['Sort Method']} used ${node['Sort Space Used']} kB of disk for sort key ${sortKey}`,
+  };
+};
+
+const checkNestedLoop = (node: PlanNode): HotSpot | undefined => {
+  const [outer, inner] = node.Plans || [];
+  if (node['Node Type'] !== 'Nested Loop' || !outer || !inner) {
+    return undefined;
+  }
+
+  // The inner side runs once per outer row
+  const loops = analyzed(inner) ? inner['Actual Loops'] : totalRows(outer);
+  if (loops < NESTED_LOOP_THRESHOLD) {
+    return undefined;
+  }
+
+  const innerRelation = relationName(inner);
+  const verb = analyzed(inner) ? 'ran' : 'is estimated to run';
+  return {
+    kind: 'nestedLoop',
+    node: node['Node Type'],
+    relation: innerRelation,
+    detail: `Inner ${inner['Node Type']}${innerRelation ? ` on ${innerRelation}` : ''} ${verb} ${loops} times`,
+  };
+};
+
+const CHECKS: Array<(node: PlanNode, relationRows: Record<string, number>) => HotSpot | undefined> = [
+  checkSequentialScan,
+  checkRowEstimate,
+  checkDiskSort,
+  checkNestedLoop,
+];
+
+const walk = (node: PlanNode, visit: (node: PlanNode) => void): void => {
+  visit(node);
+  (node.Plans || []).forEach(child => walk(child, visit));
+};
+
+// Relations read by sequential scans, named as relationRows expects them in findHotSpots
+export const listScannedRelations = (plan: PlanNode): string[] => {
+  const relations = new Set<string>();
+  walk(plan, node => {
+    const relation = node['Node Type'] === 'Seq Scan' && relationKey(node);
+    if (relation) {
+      relations.add(relation);
+    }
+  });
+  return [...relations];
+};
+
+// Walks the plan tree depth-first and reports the nodes that most often explain a slow query.
+// relationRows holds the estimated size of scanned relations, for plans that were not analyzed.
+export const findHotSpots = (plan: PlanNode, relationRows: Record<string, number> = {}): HotSpot[] => {
+  const hotSpots: HotSpot[] = [];
+  walk(plan, node => {
+    for (const check of CHECKS) {
+      const hotSpot = check(node, relationRows);
+      if (hotSpot) {
+        hotSpots.push(hotSpot);
+      }
+    }
+  });
+  return hotSpots;
+};
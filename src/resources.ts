@@ -1,28 +1,51 @@
-import { ListResourcesResult, ReadResourceResult, ReadResourceRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ListResourcesResult, ReadResourceRequest, ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+
+import { describeEnum, describeRelation, listSchemaObjects } from './catalog.js';
 import { DatabaseManager } from './database.js';
 
 export class ResourceHandlers {
   private readonly SCHEMA_PATH = 'schema';
-  private readonly resourceBaseUrl = new URL('postgres://localhost/');
+  private readonly ENUM_PATH = 'enum';
+  private readonly DEFAULT_SCHEMA = 'public';
+  private readonly LEGACY_HOST = 'localhost';
 
   constructor(private dbManager: DatabaseManager) {}
 
   async handleListResources(): Promise<ListResourcesResult> {
-    const pool = this.dbManager.getCurrentPool();
+    const databaseNames = Object.keys(this.dbManager.getDatabases());
+    const results = await Promise.allSettled(databaseNames.map(database => this.listDatabaseResources(database)));
+
+    // One unreachable environment should not hide the resources of the others
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to list resources for database '${databaseNames[i]}':`, result.reason);
+      }
+    });
+
+    return {
+      resources: results.flatMap(result => (result.status === 'fulfilled' ? result.value : [])),
+    };
+  }
+
+  private async listDatabaseResources(database: string): Promise<Resource[]> {
+    const pool = await this.dbManager.getPool(database);
     const client = await pool.connect();
-    
+
     try {
-      const result = await client.query(
-        "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public'"
-      );
-      
-      return {
-        resources: result.rows.map(row => ({
-          uri: new URL(`${row.table_name}/${this.SCHEMA_PATH}`, this.resourceBaseUrl).href,
+      const objects = await listSchemaObjects(client);
+      const baseUrl = new URL(`postgres://${encodeURIComponent(database)}/`);
+
+      return objects.map(object => {
+        const isEnum = object.kind === 'enum';
+        const resourcePath = isEnum ? this.ENUM_PATH : this.SCHEMA_PATH;
+        const path = [object.schema, object.name].map(encodeURIComponent).join('/');
+
+        return {
+          uri: new URL(`${path}/${resourcePath}`, baseUrl).href,
           mimeType: 'application/json',
-          name: `"${row.table_name}" database schema`,
-        })),
-      };
+          name: `[${database}] "${object.schema}.${object.name}" ${object.kind} ${isEnum ? 'values' : 'schema'}`,
+        };
+      });
     } finally {
       client.release();
     }
@@ -40,29 +63,44 @@ export class ResourceHandlers {
       throw new Error(`Invalid resource URI: ${request.params.uri}`);
     }
 
-    const pathComponents = resourceUrl.pathname.split('/');
-    const schema = pathComponents.pop();
-    const tableName = pathComponents.pop();
+    const pathComponents = resourceUrl.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const resourcePath = pathComponents.pop();
+    const objectName = pathComponents.pop();
+    // URIs without a schema component predate multi-schema support and refer to the public schema
+    const schemaName = pathComponents.pop() || this.DEFAULT_SCHEMA;
 
-    if (schema !== this.SCHEMA_PATH) {
+    if ((resourcePath !== this.SCHEMA_PATH && resourcePath !== this.ENUM_PATH) || !objectName) {
       throw new Error('Invalid resource URI');
     }
 
-    const pool = this.dbManager.getCurrentPool();
+    // URIs on the legacy localhost host predate environment-scoped URIs and read from the current database
+    const host = decodeURIComponent(resourceUrl.hostname);
+    const database =
+      host === this.LEGACY_HOST && !this.dbManager.getDatabases()[host] ? this.dbManager.getCurrentDatabase() : host;
+
+    if (!this.dbManager.getDatabases()[database]) {
+      throw new Error(`Database configuration '${database}' not found`);
+    }
+
+    const pool = await this.dbManager.getPool(database);
     const client = await pool.connect();
-    
+
     try {
-      const result = await client.query(
-        'SELECT column_name, data_type FROM information_schema.columns WHERE table_name = $1',
-        [tableName]
-      );
+      const description =
+        resourcePath === this.ENUM_PATH
+          ? await describeEnum(client, schemaName, objectName)
+          : await describeRelation(client, schemaName, objectName);
+
+      if (!description) {
+        throw new Error(`Resource not found: ${schemaName}.${objectName} in database '${database}'`);
+      }
 
       return {
         contents: [
           {
             uri: request.params.uri,
             mimeType: 'application/json',
-            text: JSON.stringify(result.rows, null, 2),
+            text: JSON.stringify(description, null, 2),
           },
         ],
       };
@@ -70,4 +108,4 @@ export class ResourceHandlers {
       client.release();
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,366 @@
+import { ClientBase } from 'pg';
+
+import {
+    ColumnDescription, describeEnum, describeRelation, EnumDescription, FunctionDescription, listFunctions,
+    listSchemaObjects, listTriggers, RelationDescription, TriggerDescription
+} from './catalog.js';
+import { quoteIdentifier, quoteLiteral } from './sql.js';
+
+export interface SchemaSnapshot {
+  relations: Record<string, RelationDescription>;
+  enums: Record<string, EnumDescription>;
+  functions: Record<string, FunctionDescription>;
+  triggers: Record<string, TriggerDescription>;
+}
+
+export interface ObjectDiff<T> {
+  onlyInSource: string[];
+  onlyInTarget: string[];
+  changed: Array<{ name: string; source: T; target: T }>;
+}
+
+export interface RelationDiff {
+  name: string;
+  kind: string;
+  columns: ObjectDiff<Omit<ColumnDescription, 'name' | 'comment'>>;
+  constraints: ObjectDiff<string>;
+  indexes: ObjectDiff<string>;
+  viewDefinition?: { source?: string; target?: string };
+}
+
+export interface SchemaDiff {
+  relations: {
+    onlyInSource: string[];
+    onlyInTarget: string[];
+    changed: RelationDiff[];
+  };
+  enums: ObjectDiff<string[]>;
+  functions: ObjectDiff<string>;
+  triggers: ObjectDiff<string>;
+}
+
+const qualifiedName = (schema: string, name: string): string => `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+
+export const loadSchemaSnapshot = async (client: ClientBase, schemas?: string[]): Promise<SchemaSnapshot> => {
+  const inScope = (schema: string) => !schemas || schemas.length === 0 || schemas.includes(schema);
+  const snapshot: SchemaSnapshot = { relations: {}, enums: {}, functions: {}, triggers: {} };
+
+  for (const object of await listSchemaObjects(client)) {
+    if (!inScope(object.schema)) {
+      continue;
+    }
+
+    const key = `${object.schema}.${object.name}`;
+    if (object.kind === 'enum') {
+      const description = await describeEnum(client, object.schema, object.name);
+      if (description) {
+        snapshot.enums[key] = description;
+      }
+    } else {
+      const description = await describeRelation(client, object.schema, object.name);
+      if (description) {
+        snapshot.relations[key] = description;
+      }
+    }
+  }
+
+  for (const fn of await listFunctions(client)) {
+    if (inScope(fn.schema)) {
+      snapshot.functions[`${fn.schema}.${fn.name}(${fn.arguments})`] = fn;
+    }
+  }
+
+  for (const trigger of await listTriggers(client)) {
+    if (inScope(trigger.schema)) {
+      snapshot.triggers[`${trigger.schema}.${trigger.table}.${trigger.name}`] = trigger;
+    }
+  }
+
+  return snapshot;
+};
+
+const diffByKey = <T, V>(
+  source: Record<string, T>,
+  target: Record<string, T>,
+  value: (item: T) => V
+): ObjectDiff<V> => {
+  const diff: ObjectDiff<V> = { onlyInSource: [], onlyInTarget: [], changed: [] };
+
+  for (const [name, item] of Object.entries(source)) {
+    if (!(name in target)) {
+      diff.onlyInSource.push(name);
+    } else if (JSON.stringify(value(item)) !== JSON.stringify(value(target[name]))) {
+      diff.changed.push({ name, source: value(item), target: value(target[name]) });
+    }
+  }
+
+  diff.onlyInTarget = Object.keys(target).filter(name => !(name in source));
+  return diff;
+};
+
+const isEmptyDiff = (diff: ObjectDiff<unknown>): boolean =>
+  diff.onlyInSource.length === 0 && diff.onlyInTarget.length === 0 && diff.changed.length === 0;
+
+const byName = <T extends { name: string }>(items: T[]): Record<string, T> =>
+  Object.fromEntries(items.map(item => [item.name, item]));
+
+const constraintsOf = (relation: RelationDescription): Record<string, string> =>
+  Object.fromEntries(
+    [
+      ...(relation.primaryKey ? [relation.primaryKey] : []),
+      ...relation.foreignKeys,
+      ...relation.uniqueConstraints,
+      ...relation.checkConstraints,
+      ...relation.exclusionConstraints,
+    ].map(constraint => [constraint.name, constraint.definition])
+  );
+
+// Indexes that back a primary key, unique or exclusion constraint are managed through the constraint
+const standaloneIndexesOf = (relation: RelationDescription): Record<string, string> => {
+  const constraints = constraintsOf(relation);
+  return Object.fromEntries(
+    relation.indexes.filter(index => !(index.name in constraints)).map(index => [index.name, index.definition])
+  );
+};
+
+const diffRelation = (name: string, source: RelationDescription, target: RelationDescription): RelationDiff => {
+  const diff: RelationDiff = {
+    name,
+    kind: source.kind,
+    columns: diffByKey(byName(source.columns), byName(target.columns), ({ dataType, nullable, default: d }) => ({
+      dataType,
+      nullable,
+      default: d,
+    })),
+    constraints: diffByKey(constraintsOf(source), constraintsOf(target), definition => definition),
+    indexes: diffByKey(standaloneIndexesOf(source), standaloneIndexesOf(target), definition => definition),
+  };
+
+  if (source.kind !== target.kind || source.viewDefinition !== target.viewDefinition) {
+    diff.viewDefinition = { source: source.viewDefinition, target: target.viewDefinition };
+  }
+
+  return diff;
+};
+
+export const diffSchemas = (source: SchemaSnapshot, target: SchemaSnapshot): SchemaDiff => {
+  const relations = diffByKey(source.relations, target.relations, relation => relation);
+
+  return {
+    relations: {
+      onlyInSource: relations.onlyInSource,
+      onlyInTarget: relations.onlyInTarget,
+      changed: relations.changed
+        .map(({ name, source, target }) => diffRelation(name, source, target))
+        .filter(
+          diff =>
+            !isEmptyDiff(diff.columns) ||
+            !isEmptyDiff(diff.constraints) ||
+            !isEmptyDiff(diff.indexes) ||
+            diff.viewDefinition !== undefined
+        ),
+    },
+    enums: diffByKey(source.enums, target.enums, description => description.values),
+    functions: diffByKey(source.functions, target.functions, fn => fn.definition),
+    triggers: diffByKey(source.triggers, target.triggers, trigger => trigger.definition),
+  };
+};
+
+const columnDefinition = (column: ColumnDescription): string =>
+  [
+    quoteIdentifier(column.name),
+    column.dataType,
+    column.default !== null ? `DEFAULT ${column.default}` : '',
+    column.nullable ? '' : 'NOT NULL',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const createRelationSql = (relation: RelationDescription): string => {
+  const name = qualifiedName(relation.schema, relation.name);
+
+  switch (relation.kind) {
+    case 'view':
+      return `CREATE OR REPLACE VIEW ${name} AS\n${relation.viewDefinition}`;
+    case 'materialized view':
+      return `CREATE MATERIALIZED VIEW ${name} AS\n${relation.viewDefinition}`;
+    default:
+      return `CREATE TABLE ${name} (\n  ${relation.columns.map(columnDefinition).join(',\n  ')}\n);`;
+  }
+};
+
+const dropRelationSql = (relation: RelationDescription): string => {
+  const name = qualifiedName(relation.schema, relation.name);
+
+  switch (relation.kind) {
+    case 'view':
+      return `DROP VIEW ${name};`;
+    case 'materialized view':
+      return `DROP MATERIALIZED VIEW ${name};`;
+    case 'foreign table':
+      return `DROP FOREIGN TABLE ${name};`;
+    default:
+      return `DROP TABLE ${name};`;
+  }
+};
+
+const alterColumnSql = (table: string, source: ColumnDescription, target: ColumnDescription): string[] => {
+  const column = `ALTER TABLE ${table} ALTER COLUMN ${quoteIdentifier(source.name)}`;
+  const statements: string[] = [];
+
+  if (source.dataType !== target.dataType) {
+    statements.push(`${column} TYPE ${source.dataType};`);
+  }
+  if (source.default !== target.default) {
+    statements.push(source.default !== null ? `${column} SET DEFAULT ${source.default};` : `${column} DROP DEFAULT;`);
+  }
+  if (source.nullable !== target.nullable) {
+    statements.push(source.nullable ? `${column} DROP NOT NULL;` : `${column} SET NOT NULL;`);
+  }
+
+  return statements;
+};
+
+// Generates the DDL that brings the target schema in line with the source. Statements are grouped so that
+// types and tables exist before the constraints, indexes, functions and triggers that depend on them.
+export const generateSchemaDdl = (source: SchemaSnapshot, target: SchemaSnapshot, diff: SchemaDiff): string[] => {
+  const types: string[] = [];
+  const relations: string[] = [];
+  const columns: string[] = [];
+  const drops: string[] = [];
+  const constraints: string[] = [];
+  const foreignKeys: string[] = [];
+  const indexes: string[] = [];
+  const functions: string[] = [];
+  const triggers: string[] = [];
+  const finalDrops: string[] = [];
+
+  const addConstraint = (table: string, name: string, definition: string) => {
+    const statement = `ALTER TABLE ${table} ADD CONSTRAINT ${quoteIdentifier(name)} ${definition};`;
+    (definition.startsWith('FOREIGN KEY') ? foreignKeys : constraints).push(statement);
+  };
+
+  for (const name of diff.enums.onlyInSource) {
+    const { schema, name: typeName, values } = source.enums[name];
+    types.push(`CREATE TYPE ${qualifiedName(schema, typeName)} AS ENUM (${values.map(quoteLiteral).join(', ')});`);
+  }
+  for (const { name } of diff.enums.changed) {
+    const { schema, name: typeName, values } = source.enums[name];
+    const existing = target.enums[name].values;
+    const added = values.filter(value => !existing.includes(value));
+
+    // Values can only be appended in place; removals and reordering need the type to be recreated
+    if (JSON.stringify([...existing, ...added]) === JSON.stringify(values)) {
+      for (const value of added) {
+        types.push(`ALTER TYPE ${qualifiedName(schema, typeName)} ADD VALUE ${quoteLiteral(value)};`);
+      }
+    } else {
+      types.push(`-- Enum ${name} has removed or reordered values and must be recreated manually`);
+    }
+  }
+
+  for (const name of diff.relations.onlyInSource) {
+    const relation = source.relations[name];
+    const table = qualifiedName(relation.schema, relation.name);
+    relations.push(createRelationSql(relation));
+
+    if (relation.kind === 'table') {
+      for (const [constraintName, definition] of Object.entries(constraintsOf(relation))) {
+        addConstraint(table, constraintName, definition);
+      }
+    }
+    indexes.push(...Object.values(standaloneIndexesOf(relation)).map(definition => `${definition};`));
+  }
+
+  for (const relationDiff of diff.relations.changed) {
+    const sourceRelation = source.relations[relationDiff.name];
+    const targetRelation = target.relations[relationDiff.name];
+    const table = qualifiedName(sourceRelation.schema, sourceRelation.name);
+
+    if (relationDiff.viewDefinition) {
+      if (sourceRelation.kind === 'view' && targetRelation.kind === 'view') {
+        relations.push(createRelationSql(sourceRelation));
+      } else {
+        drops.push(dropRelationSql(targetRelation));
+        relations.push(createRelationSql(sourceRelation));
+      }
+      continue;
+    }
+
+    const sourceColumns = byName(sourceRelation.columns);
+    const targetColumns = byName(targetRelation.columns);
+
+    for (const name of relationDiff.columns.onlyInSource) {
+      columns.push(`ALTER TABLE ${table} ADD COLUMN ${columnDefinition(sourceColumns[name])};`);
+    }
+    for (const { name } of relationDiff.columns.changed) {
+      columns.push(...alterColumnSql(table, sourceColumns[name], targetColumns[name]));
+    }
+    for (const name of relationDiff.columns.onlyInTarget) {
+      finalDrops.push(`ALTER TABLE ${table} DROP COLUMN ${quoteIdentifier(name)};`);
+    }
+
+    // Changed constraints and indexes are dropped and recreated from the source definition
+    const sourceConstraints = constraintsOf(sourceRelation);
+    const changedConstraints = relationDiff.constraints.changed.map(constraint => constraint.name);
+    for (const name of [...relationDiff.constraints.onlyInTarget, ...changedConstraints]) {
+      drops.push(`ALTER TABLE ${table} DROP CONSTRAINT ${quoteIdentifier(name)};`);
+    }
+    for (const name of [...relationDiff.constraints.onlyInSource, ...changedConstraints]) {
+      addConstraint(table, name, sourceConstraints[name]);
+    }
+
+    const sourceIndexes = standaloneIndexesOf(sourceRelation);
+    const changedIndexes = relationDiff.indexes.changed.map(index => index.name);
+    for (const name of [...relationDiff.indexes.onlyInTarget, ...changedIndexes]) {
+      drops.push(`DROP INDEX ${qualifiedName(sourceRelation.schema, name)};`);
+    }
+    for (const name of [...relationDiff.indexes.onlyInSource, ...changedIndexes]) {
+      indexes.push(`${sourceIndexes[name]};`);
+    }
+  }
+
+  for (const name of [...diff.functions.onlyInSource, ...diff.functions.changed.map(fn => fn.name)]) {
+    functions.push(`${source.functions[name].definition};`);
+  }
+
+  const dropTriggerSql = (trigger: TriggerDescription): string =>
+    `DROP TRIGGER ${quoteIdentifier(trigger.name)} ON ${qualifiedName(trigger.schema, trigger.table)};`;
+
+  const changedTriggers = diff.triggers.changed.map(trigger => trigger.name);
+  for (const name of changedTriggers) {
+    drops.push(dropTriggerSql(target.triggers[name]));
+  }
+  for (const name of [...diff.triggers.onlyInSource, ...changedTriggers]) {
+    triggers.push(`${source.triggers[name].definition};`);
+  }
+
+  for (const name of diff.triggers.onlyInTarget) {
+    finalDrops.push(dropTriggerSql(target.triggers[name]));
+  }
+  for (const name of diff.functions.onlyInTarget) {
+    const fn = target.functions[name];
+    const kind = fn.kind === 'procedure' ? 'PROCEDURE' : 'FUNCTION';
+    finalDrops.push(`DROP ${kind} ${qualifiedName(fn.schema, fn.name)}(${fn.arguments});`);
+  }
+  for (const name of diff.relations.onlyInTarget) {
+    finalDrops.push(dropRelationSql(target.relations[name]));
+  }
+  for (const name of diff.enums.onlyInTarget) {
+    const { schema, name: typeName } = target.enums[name];
+    finalDrops.push(`DROP TYPE ${qualifiedName(schema, typeName)};`);
+  }
+
+  return [
+    ...types,
+    ...drops,
+    ...relations,
+    ...columns,
+    ...constraints,
+    ...foreignKeys,
+    ...indexes,
+    ...functions,
+    ...triggers,
+    ...finalDrops,
+  ];
+};
@@ -0,0 +1,118 @@
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+
+export const SECRET_COMMAND_TIMEOUT = 10000;
+
+// Connection fields a provider can use to look up the secret, such as the matching ~/.pgpass entry
+export interface SecretContext {
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+}
+
+export type SecretProvider = (reference: string, context?: SecretContext) => Promise<string>;
+
+const readSecretFile: SecretProvider = async reference => {
+  try {
+    return (await readFile(reference, 'utf8')).replace(/\r?\n$/, '');
+  } catch (error) {
+    throw new Error(`Failed to read secret file '${reference}': ${(error as NodeJS.ErrnoException).code || 'error'}`);
+  }
+};
+
+// Runs without blocking, since it is called for every new connection while other queries are in flight.
+// Error messages report only the exit status, since the command's output may contain the secret.
+const runSecretCommand: SecretProvider = reference =>
+  new Promise((resolve, reject) => {
+    const options = { shell: true, encoding: 'utf8' as const, timeout: SECRET_COMMAND_TIMEOUT };
+    const child = execFile(reference, options, (error, stdout) => {
+      if (error) {
+        const status = typeof error.code === 'number' ? ` with exit code ${error.code}` : '';
+        reject(new Error(`Secret command failed${status}`));
+        return;
+      }
+      resolve(stdout.replace(/\r?\n$/, ''));
+    });
+    // There is no terminal to prompt on, so a command reading input gets end-of-file
+    child.stdin?.end();
+  });
+
+// Splits a .pgpass line on unescaped colons, unescaping `\:` and `\\`
+const splitPgpassLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\' && i + 1 < line.length) {
+      current += line[++i];
+    } else if (line[i] === ':') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += line[i];
+    }
+  }
+
+  fields.push(current);
+  return fields;
+};
+
+const lookupPgpass: SecretProvider = async (_reference, context) => {
+  if (!context) {
+    throw new Error('${pgpass} can only be used for the password of a database configured with host and username');
+  }
+
+  const file = process.env.PGPASSFILE || join(homedir(), '.pgpass');
+  let contents: string;
+  try {
+    contents = await readFile(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read password file '${file}': ${(error as NodeJS.ErrnoException).code || 'error'}`);
+  }
+
+  const wanted = [context.host, String(context.port), context.database, context.username];
+  for (const line of contents.split(/\r?\n/)) {
+    if (line.trim().length === 0 || line.startsWith('#')) {
+      continue;
+    }
+
+    const fields = splitPgpassLine(line);
+    if (fields.length === 5 && wanted.every((value, i) => fields[i] === '*' || fields[i] === value)) {
+      return fields[4];
+    }
+  }
+
+  const { username, host, port, database } = context;
+  throw new Error(`No entry in '${file}' matches ${username}@${host}:${port}/${database}`);
+};
+
+export const SECRET_PROVIDERS: Record<string, SecretProvider> = {
+  file: readSecretFile,
+  cmd: runSecretCommand,
+  pgpass: lookupPgpass,
+};
+
+// Replaces `${provider}` and `${provider:reference}` placeholders for every registered provider and every scheme in
+// `providers`, such as `${env:...}`, passing each value through `encode`. Placeholders are replaced in a single
+// pass, so a resolved value is never resolved again. Unknown schemes are left in place.
+export const resolveSecrets = async (
+  text: string,
+  context?: SecretContext,
+  providers: Record<string, SecretProvider> = {},
+  encode: (value: string) => string = value => value
+): Promise<string> => {
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(/\$\{([a-z]+)(?::([^}]*))?\}/g)) {
+    const [placeholder, scheme, reference = ''] = match;
+    const provider = providers[scheme] || SECRET_PROVIDERS[scheme];
+    result += text.slice(last, match.index) + (provider ? encode(await provider(reference, context)) : placeholder);
+    last = match.index! + placeholder.length;
+  }
+
+  return result + text.slice(last);
+};
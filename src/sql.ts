@@ -0,0 +1,334 @@
+import { QueryConfig } from 'pg';
+
+export interface WhereCondition {
+  column: string;
+  operator?: string;
+  value?: any;
+}
+
+export type WhereInput = string | WhereCondition[];
+
+export interface WhereClause {
+  clause: string;
+  values: any[];
+}
+
+export const WHERE_OPERATORS = [
+  '=',
+  '!=',
+  '<>',
+  '<',
+  '<=',
+  '>',
+  '>=',
+  'LIKE',
+  'NOT LIKE',
+  'ILIKE',
+  'NOT ILIKE',
+  'IN',
+  'NOT IN',
+  'IS NULL',
+  'IS NOT NULL',
+];
+
+// pg sends a query without parameters over the simple-query protocol, which runs every statement in the text, so a
+// `COMMIT` inside user-supplied SQL would end the transaction wrapped around it. The extended protocol only accepts a
+// single statement.
+export const singleStatement = (text: string, values?: unknown[]): QueryConfig =>
+  ({ text, values, queryMode: 'extended' }) as QueryConfig;
+
+export const quoteIdentifier = (identifier: string): string => {
+  if (typeof identifier !== 'string' || identifier.length === 0) {
+    throw new Error('Identifier must be a non-empty string');
+  }
+  return `"${identifier.replace(/"/g, '""')}"`;
+};
+
+export const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+// Splits a possibly schema-qualified name on dots outside double quotes, so
+// `public.Users` and `"my.schema"."Users"` both resolve to two parts.
+export const splitQualifiedName = (name: string): string[] => {
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new Error('Identifier must be a non-empty string');
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < name.length; i++) {
+    const char = name[i];
+
+    if (quoted) {
+      if (char === '"' && name[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === '.') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted identifier in '${name}'`);
+  }
+  parts.push(current);
+
+  if (parts.some(part => part.length === 0) || parts.length > 3) {
+    throw new Error(`Invalid identifier '${name}'`);
+  }
+
+  return parts;
+};
+
+export const quoteQualifiedName = (name: string): string => {
+  return splitQualifiedName(name).map(quoteIdentifier).join('.');
+};
+
+// Whether the quote at `index` opens an E'...' string, in which a backslash escapes the next character
+const opensEscapeString = (sql: string, index: number): boolean =>
+  sql[index] === "'" && /(^|[^\w$])[Ee]$/.test(sql.slice(Math.max(0, index - 2), index));
+
+// Removes `--` and (nested) `/* */` comments outside string literals and quoted identifiers
+export const stripComments = (sql: string): string => {
+  let result = '';
+  let quote: string | null = null;
+  let escapes = false;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+
+    if (quote && escapes && char === '\\') {
+      result += char + (sql[i + 1] ?? '');
+      i++;
+    } else if (quote) {
+      // A doubled quote closes and reopens the literal, which leaves it open as it should
+      quote = char === quote ? null : quote;
+      result += char;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      escapes = opensEscapeString(sql, i);
+      result += char;
+    } else if (char === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      result += '\n';
+    } else if (char === '/' && sql[i + 1] === '*') {
+      let depth = 0;
+      do {
+        if (sql.startsWith('/*', i)) {
+          depth++;
+          i += 2;
+        } else if (sql.startsWith('*/', i)) {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      } while (depth > 0 && i < sql.length);
+      // The loop has already moved past the comment
+      i--;
+      result += ' ';
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+};
+
+// Whether `;` appears outside string literals and quoted identifiers
+const hasStatementSeparator = (sql: string): boolean => {
+  let quote: string | null = null;
+  let escapes = false;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+
+    if (quote && escapes && char === '\\') {
+      i++;
+    } else if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      escapes = opensEscapeString(sql, i);
+    } else if (char === ';') {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// A string literal, E'...' string, quoted identifier, dollar-quoted string or comment (each possibly unterminated),
+// a `;`, or a run of other text that stops before an E'...' string
+const SQL_TOKEN = new RegExp(
+  [
+    /(?<![\w$])[Ee]'(?:[^'\\]|\\[\s\S]|'')*'?/,
+    /'(?:[^']|'')*'?/,
+    /"(?:[^"]|"")*"?/,
+    /(\$(?:[A-Za-z_]\w*)?\$)[\s\S]*?(?:\1|$)/,
+    /--[^\n]*/,
+    /\/\*[\s\S]*?(?:\*\/|$)/,
+    /;/,
+    /(?:[^'"$;\-/Ee]|\B[Ee]|[Ee](?!'))+/,
+    /[\s\S]/,
+  ]
+    .map(pattern => pattern.source)
+    .join('|'),
+  'g'
+);
+
+// Splits a script into its statements, without comments
+export const splitStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+
+  for (const token of sql.match(SQL_TOKEN) || []) {
+    if (token === ';') {
+      statements.push(current);
+      current = '';
+    } else if (token.startsWith('--') || token.startsWith('/*')) {
+      current += ' ';
+    } else {
+      current += token;
+    }
+  }
+  statements.push(current);
+
+  return statements.map(statement => statement.trim()).filter(statement => statement.length > 0);
+};
+
+// Splits on a keyword (AND / OR) that is not nested in parentheses or string literals
+const splitTopLevel = (condition: string, keyword: string): string[] => {
+  const parts: string[] = [];
+  const pattern = new RegExp(`^\\s${keyword}\\s`, 'i');
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < condition.length; i++) {
+    const char = condition[i];
+
+    if (char === "'") {
+      quoted = !quoted;
+    } else if (!quoted && char === '(') {
+      depth++;
+    } else if (!quoted && char === ')') {
+      depth--;
+    } else if (!quoted && depth === 0 && pattern.test(condition.slice(i, i + keyword.length + 2))) {
+      parts.push(condition.slice(start, i));
+      start = i + keyword.length + 1;
+    }
+  }
+
+  parts.push(condition.slice(start));
+  return parts;
+};
+
+const stripOuterParentheses = (condition: string): string => {
+  let result = condition.trim();
+
+  while (result.startsWith('(') && result.endsWith(')')) {
+    // Only strip when the first parenthesis closes at the very end, unlike `(a) OR (b)`
+    let depth = 0;
+    for (let i = 0; i < result.length - 1; i++) {
+      depth += result[i] === '(' ? 1 : result[i] === ')' ? -1 : 0;
+      if (depth === 0) {
+        return result;
+      }
+    }
+    result = result.slice(1, -1).trim();
+  }
+
+  return result;
+};
+
+// Best-effort detection of raw WHERE strings that match every row, such as `true`, `1=1` or `id = id`
+export const isTautologicalWhere = (where: string): boolean => {
+  const condition = stripOuterParentheses(stripComments(where));
+
+  if (condition.length === 0) {
+    return true;
+  }
+
+  const disjuncts = splitTopLevel(condition, 'OR');
+  if (disjuncts.length > 1) {
+    return disjuncts.some(isTautologicalWhere);
+  }
+
+  const conjuncts = splitTopLevel(condition, 'AND');
+  if (conjuncts.length > 1) {
+    return conjuncts.every(isTautologicalWhere);
+  }
+
+  const normalized = condition.replace(/\s+/g, ' ').trim().toLowerCase();
+  if (['true', "'t'", "'true'", 'not false'].includes(normalized)) {
+    return true;
+  }
+
+  const comparison = normalized.match(/^(.+?)\s*(=|>=|<=|is not distinct from|like|ilike)\s*(.+)$/);
+  return comparison !== null && comparison[1].trim() === comparison[3].trim();
+};
+
+export const buildWhereClause = (where: WhereInput, startIndex: number = 1): WhereClause => {
+  if (typeof where === 'string') {
+    // Without comments, a trailing `--` cannot swallow the RETURNING clause that follows the condition
+    const condition = stripComments(where).trim();
+    if (condition.length === 0) {
+      throw new Error('WHERE condition must not be empty');
+    }
+    if (hasStatementSeparator(condition)) {
+      throw new Error("WHERE condition must not contain ';'");
+    }
+    return { clause: condition, values: [] };
+  }
+
+  if (!Array.isArray(where) || where.length === 0) {
+    throw new Error('WHERE conditions must be a non-empty string or array');
+  }
+
+  const values: any[] = [];
+  const conditions = where.map(condition => {
+    const column = quoteQualifiedName(condition.column);
+    const operator = (condition.operator || '=').trim().toUpperCase();
+
+    if (!WHERE_OPERATORS.includes(operator)) {
+      throw new Error(
+        `Unsupported WHERE operator '${condition.operator}'. Expected one of: ${WHERE_OPERATORS.join(', ')}`
+      );
+    }
+
+    if (operator === 'IS NULL' || operator === 'IS NOT NULL') {
+      return `${column} ${operator}`;
+    }
+
+    if (condition.value === undefined) {
+      throw new Error(`WHERE condition on '${condition.column}' requires a value`);
+    }
+
+    values.push(condition.value);
+    const placeholder = `$${startIndex + values.length - 1}`;
+
+    if (operator === 'IN' || operator === 'NOT IN') {
+      if (!Array.isArray(condition.value)) {
+        throw new Error(`WHERE condition on '${condition.column}' with ${operator} requires an array value`);
+      }
+      return operator === 'IN' ? `${column} = ANY(${placeholder})` : `${column} <> ALL(${placeholder})`;
+    }
+
+    return `${column} ${operator} ${placeholder}`;
+  });
+
+  return { clause: conditions.join(' AND '), values };
+};
@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import { Client, ConnectConfig } from 'ssh2';
+
+import { SshTunnelConfig } from './config.js';
+
+export const DEFAULT_SSH_PORT = 22;
+export const SSH_READY_TIMEOUT = 10000;
+
+export interface TunnelTarget {
+  host: string;
+  port: number;
+}
+
+// OpenSSH-style `SHA256:...` fingerprint, as printed by `ssh-keygen -l`
+const fingerprint = (key: Buffer): string =>
+  `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+
+// Forwards connections to a local port through an SSH jump host to the database. The local port stays the same
+// for the tunnel's lifetime, and a dropped SSH connection is re-established when the next connection comes in.
+export class SshTunnel {
+  private server?: Server;
+  private listening?: Promise<number>;
+  private connection?: Promise<Client>;
+
+  constructor(private config: SshTunnelConfig, private target: TunnelTarget) {}
+
+  // Resolves to the local port once the SSH connection is up, so authentication errors surface before connecting
+  async open(): Promise<number> {
+    const port = await this.listen();
+    await this.connect();
+    return port;
+  }
+
+  close(): void {
+    this.server?.close();
+    this.connection?.then(
+      client => client.end(),
+      () => undefined
+    );
+    this.server = undefined;
+    this.listening = undefined;
+    this.connection = undefined;
+  }
+
+  private listen(): Promise<number> {
+    if (!this.listening) {
+      const server = createServer(socket => this.forward(socket));
+      this.server = server;
+      this.listening = new Promise<number>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+      });
+      this.listening.catch(() => {
+        this.server = undefined;
+        this.listening = undefined;
+      });
+    }
+    return this.listening;
+  }
+
+  private connect(): Promise<Client> {
+    if (!this.connection) {
+      const connection = new Promise<Client>((resolve, reject) => {
+        const client = new Client();
+        let ready = false;
+
+        client.on('ready', () => {
+          ready = true;
+          resolve(client);
+        });
+        client.on('error', error => {
+          if (ready) {
+            console.error(`SSH tunnel to ${this.config.host} failed:`, error);
+          } else {
+            reject(new Error(`SSH tunnel to ${this.config.host} failed: ${error.message}`));
+          }
+        });
+        client.on('close', () => {
+          if (this.connection === connection) {
+            this.connection = undefined;
+          }
+        });
+
+        client.connect(this.getConnectConfig());
+      });
+
+      this.connection = connection;
+      connection.catch(() => {
+        if (this.connection === connection) {
+          this.connection = undefined;
+        }
+      });
+    }
+    return this.connection;
+  }
+
+  private getConnectConfig(): ConnectConfig {
+    const { host, port, username, privateKey, passphrase, agent, hostKeyFingerprint } = this.config;
+    const connectConfig: ConnectConfig = {
+      host,
+      port: port || DEFAULT_SSH_PORT,
+      username,
+      readyTimeout: SSH_READY_TIMEOUT,
+      agent: agent === true ? process.env.SSH_AUTH_SOCK : agent || undefined,
+    };
+
+    if (privateKey) {
+      try {
+        connectConfig.privateKey = readFileSync(privateKey);
+      } catch (error) {
+        throw new Error(`Failed to read SSH private key '${privateKey}': ${(error as NodeJS.ErrnoException).code || 'error'}`);
+      }
+      connectConfig.passphrase = passphrase;
+    }
+
+    if (hostKeyFingerprint) {
+      connectConfig.hostVerifier = (key: Buffer) => fingerprint(key) === hostKeyFingerprint;
+    } else {
+      console.error(`SSH tunnel to ${host} accepts any host key, since allowUnknownHostKey is set`);
+    }
+
+    return connectConfig;
+  }
+
+  private forward(socket: Socket): void {
+    // The database client sees a dropped tunnel as a closed connection, so errors only need to be logged here
+    socket.on('error', () => socket.destroy());
+
+    this.connect().then(
+      client => {
+        client.forwardOut('127.0.0.1', socket.remotePort || 0, this.target.host, this.target.port, (error, channel) => {
+          if (error) {
+            console.error(`SSH tunnel to ${this.target.host}:${this.target.port} failed to forward:`, error);
+            socket.destroy();
+            return;
+          }
+
+          channel.on('error', () => socket.destroy());
+          channel.on('close', () => socket.destroy());
+          socket.on('close', () => channel.destroy());
+          socket.pipe(channel).pipe(socket);
+        });
+      },
+      error => {
+        console.error(error instanceof Error ? error.message : error);
+        socket.destroy();
+      }
+    );
+  }
+}
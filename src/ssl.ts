@@ -0,0 +1,114 @@
+import { readFileSync } from 'fs';
+import { ConnectionOptions } from 'tls';
+
+import { SslConfig, SslMode } from './config.js';
+
+export const SSL_MODES: SslMode[] = ['disable', 'require', 'verify-ca', 'verify-full'];
+
+// libpq connection string parameters naming files, and the SslConfig fields they map to
+const SSL_FILE_PARAMETERS: Record<string, 'ca' | 'cert' | 'key'> = {
+  sslrootcert: 'ca',
+  sslcert: 'cert',
+  sslkey: 'key',
+};
+
+// libpq's opportunistic modes have no equivalent in pg, which either negotiates SSL or does not
+const SSL_MODE_ALIASES: Record<string, SslMode> = {
+  allow: 'disable',
+  prefer: 'require',
+};
+
+const parseSslMode = (value: string): SslMode => {
+  const mode = SSL_MODE_ALIASES[value] || SSL_MODES.find(candidate => candidate === value);
+  if (!mode) {
+    const expected = [...SSL_MODES, ...Object.keys(SSL_MODE_ALIASES)];
+    throw new Error(`Invalid sslmode '${value}' in connection string. Expected one of: ${expected.join(', ')}`);
+  }
+  return mode;
+};
+
+const readSslFile = (path: string, description: string): string => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read SSL ${description} '${path}': ${(error as NodeJS.ErrnoException).code || 'error'}`);
+  }
+};
+
+// Maps an SslConfig onto Node.js TLS options following libpq's sslmode semantics, defaulting to `verify-full`.
+// `ssl: true` keeps its original meaning of encryption without server verification.
+export const buildSslOptions = (ssl: boolean | SslConfig | undefined): boolean | ConnectionOptions | undefined => {
+  if (ssl === undefined || ssl === false) {
+    return ssl;
+  }
+  if (ssl === true) {
+    return { rejectUnauthorized: false };
+  }
+
+  const mode = ssl.mode || 'verify-full';
+  if (!SSL_MODES.includes(mode)) {
+    throw new Error(`Invalid SSL mode '${mode}'. Expected one of: ${SSL_MODES.join(', ')}`);
+  }
+  if (mode === 'disable') {
+    return false;
+  }
+
+  const options: ConnectionOptions = {};
+  if (ssl.ca) {
+    options.ca = readSslFile(ssl.ca, 'CA file');
+  }
+  if (ssl.cert) {
+    options.cert = readSslFile(ssl.cert, 'certificate file');
+  }
+  if (ssl.key) {
+    options.key = readSslFile(ssl.key, 'key file');
+  }
+  if (ssl.servername) {
+    options.servername = ssl.servername;
+  }
+
+  // As in libpq, `require` with a CA file verifies the certificate chain like `verify-ca`
+  if (mode === 'require' && !ssl.ca) {
+    options.rejectUnauthorized = false;
+  } else {
+    options.rejectUnauthorized = true;
+    if (mode !== 'verify-full') {
+      options.checkServerIdentity = () => undefined;
+    }
+  }
+
+  return options;
+};
+
+// Moves libpq SSL parameters out of a connection string, since pg would otherwise apply them with
+// its own semantics and override the ssl option. Strings that are not URLs are returned unchanged.
+export const extractSslParameters = (connectionString: string): { connectionString: string; ssl?: SslConfig } => {
+  let url: URL;
+  try {
+    url = new URL(connectionString);
+  } catch (error) {
+    return { connectionString };
+  }
+
+  const ssl: SslConfig = {};
+  const mode = url.searchParams.get('sslmode');
+  if (mode !== null) {
+    ssl.mode = parseSslMode(mode);
+    url.searchParams.delete('sslmode');
+  }
+  for (const [parameter, field] of Object.entries(SSL_FILE_PARAMETERS)) {
+    const value = url.searchParams.get(parameter);
+    if (value !== null) {
+      ssl[field] = value;
+      url.searchParams.delete(parameter);
+    }
+  }
+
+  if (Object.keys(ssl).length === 0) {
+    return { connectionString };
+  }
+
+  // A missing sslmode means libpq's default of `prefer`
+  ssl.mode = ssl.mode || SSL_MODE_ALIASES.prefer;
+  return { connectionString: url.toString(), ssl };
+};
@@ -1,6 +1,55 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 
+import { getRequiredAccessLevel, isToolAllowed } from './access.js';
+import { AccessLevel } from './config.js';
+import { OBJECT_TYPES, RENAMABLE_OBJECT_TYPES } from './ddl.js';
+import { HEALTH_CHECKS } from './health.js';
+import { WHERE_OPERATORS } from './sql.js';
+
+const dryRunSchema = {
+  type: 'boolean',
+  description: 'Run inside a transaction that is always rolled back, and report what would have happened',
+};
+
+const timeoutSchema = {
+  type: 'integer',
+  minimum: 0,
+  description: "Statement timeout in milliseconds for this call. It can only shorten the database's statementTimeout setting, and 0 keeps that setting",
+};
+
+const confirmSchema = {
+  type: 'boolean',
+  description: "Apply the change even if it affects more rows than the database's maxAffectedRows limit",
+};
+
+const whereSchema = {
+  description:
+    'Either a raw SQL condition string, or a list of conditions (combined with AND) whose values are bound as parameters',
+  anyOf: [
+    { type: 'string' },
+    {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          column: { type: 'string', description: 'Column name, optionally qualified (e.g. "createdAt")' },
+          operator: { type: 'string', enum: WHERE_OPERATORS, description: 'Defaults to =' },
+          value: { description: 'Value to compare against; an array for IN and NOT IN, omitted for IS NULL' },
+        },
+        required: ['column'],
+      },
+    },
+  ],
+};
+
 export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
+  const databaseSchema = {
+    type: 'string',
+    enum: databaseNames,
+    description: 'Database to run against for this call only, instead of the current database',
+  };
+
   return [
     {
       name: 'switchDatabase',
@@ -25,6 +74,49 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
         properties: {},
       },
     },
+    {
+      name: 'getPoolStats',
+      description: 'Show connection pool statistics (total, idle and waiting clients) for each database',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'approveOperation',
+      description:
+        'Execute a pending operation that was queued for approval on a protected database. Only call this after the user has explicitly approved it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operationId: { type: 'string', description: 'operationId returned when the operation was queued' },
+        },
+        required: ['operationId'],
+      },
+    },
+    {
+      name: 'rejectOperation',
+      description: 'Discard a pending operation that was queued for approval on a protected database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          operationId: { type: 'string', description: 'operationId returned when the operation was queued' },
+        },
+        required: ['operationId'],
+      },
+    },
+    {
+      name: 'getAuditLog',
+      description: 'Show recent audit log entries for tool calls, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, description: 'Maximum number of entries to return (default 50)' },
+          environment: { type: 'string', enum: databaseNames, description: 'Only entries for this database' },
+          tool: { type: 'string', description: 'Only entries for this tool' },
+        },
+      },
+    },
     {
       name: 'query',
       description: 'Run a read-only SQL query',
@@ -32,9 +124,165 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
         type: 'object',
         properties: {
           sql: { type: 'string' },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            description: "Maximum number of rows to return, capped by the database's maxRows setting",
+          },
+          offset: { type: 'integer', minimum: 0, description: 'Number of rows to skip' },
+          cursor: { type: 'string', description: 'nextCursor from a previous call with the same sql' },
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
       },
     },
+    {
+      name: 'explainQuery',
+      description:
+        'Show the query plan of a SQL statement, with hot spots such as large sequential scans, row-estimate misses, sorts spilling to disk and nested loops with many iterations',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sql: { type: 'string' },
+          analyze: {
+            type: 'boolean',
+            description:
+              'Execute the statement to report actual row counts and timings. It runs in a transaction that is always rolled back',
+          },
+          buffers: { type: 'boolean', description: 'Include shared buffer hits and reads' },
+          verbose: { type: 'boolean', description: 'Include output columns and schema-qualified relation names' },
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['sql'],
+      },
+    },
+    {
+      name: 'suggestIndexes',
+      description:
+        'Propose indexes for sequentially scanned tables from table and column statistics and pg_stat_statements, and report unused and duplicate indexes',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          schemas: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Only consider tables in these schemas (defaults to all user schemas)',
+          },
+          table: { type: 'string', description: 'Only consider this table, optionally schema-qualified' },
+          sql: {
+            type: 'string',
+            description:
+              'Representative query to validate candidates against, comparing its plan cost before and after each index. Requires the hypopg extension, which only plans hypothetical indexes; without it validation is skipped',
+          },
+          limit: { type: 'integer', minimum: 1, description: 'Maximum number of candidates to return (default 10)' },
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
+    {
+      name: 'getActivity',
+      description:
+        'List the sessions connected to the current database from pg_stat_activity, flagging long-running queries and sessions idle in a transaction',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          includeIdle: { type: 'boolean', description: 'Also list idle sessions (default false)' },
+          longRunningThreshold: {
+            type: 'integer',
+            minimum: 0,
+            description: 'Active queries running at least this many milliseconds are flagged as long-running (default 60000)',
+          },
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
+    {
+      name: 'getLocks',
+      description:
+        'Report lock waits in the current database as chains from each blocking session down to the sessions waiting on it',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
+    {
+      name: 'getHealthReport',
+      description:
+        'Report estimated table and index bloat, vacuum and analyze staleness, replication lag, cache hit ratios and database sizes',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          checks: {
+            type: 'array',
+            items: { type: 'string', enum: HEALTH_CHECKS },
+            description: 'Checks to run (defaults to all)',
+          },
+          limit: { type: 'integer', minimum: 1, description: 'Maximum number of entries per list (default 20)' },
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
+    {
+      name: 'compareSchemas',
+      description:
+        'Compare the schemas of two databases and report tables, columns, constraints, indexes, enums, functions and triggers that are missing or different',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          source: { type: 'string', enum: databaseNames, description: 'Database whose schema is the reference' },
+          target: { type: 'string', enum: databaseNames, description: 'Database to compare against the source' },
+          schemas: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Schemas to compare. Defaults to all user schemas',
+          },
+          includeDdl: {
+            type: 'boolean',
+            description: 'Also return the DDL that would bring the target in line with the source. Nothing is executed',
+          },
+          timeout: timeoutSchema,
+        },
+        required: ['source', 'target'],
+      },
+    },
+    {
+      name: 'compareData',
+      description:
+        'Compare the rows returned by a query or table in two databases, matched by key columns, and report rows that are missing or different',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          source: { type: 'string', enum: databaseNames, description: 'Database whose rows are the reference' },
+          target: { type: 'string', enum: databaseNames, description: 'Database to compare against the source' },
+          sql: { type: 'string', description: 'Read-only query to run in both databases. Use either sql or table' },
+          table: { type: 'string', description: 'Table name, optionally schema-qualified (e.g. public.Users)' },
+          keyColumns: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              "Columns that identify a row. Defaults to the table's primary key; without keys whole rows are compared",
+          },
+          limit: {
+            type: 'integer',
+            minimum: 1,
+            description: "Maximum number of rows to compare per database, capped by each database's maxRows setting",
+          },
+          hash: {
+            type: 'boolean',
+            description: 'Compare md5 hashes of rows instead of fetching full rows. Changed rows are reported by key only',
+          },
+          timeout: timeoutSchema,
+        },
+        required: ['source', 'target'],
+      },
+    },
     {
       name: 'execute',
       description: 'Execute a SQL statement that modifies data (INSERT, UPDATE, DELETE)',
@@ -42,6 +290,9 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
         type: 'object',
         properties: {
           sql: { type: 'string' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
       },
     },
@@ -51,11 +302,14 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
       inputSchema: {
         type: 'object',
         properties: {
-          table: { type: 'string' },
+          table: { type: 'string', description: 'Table name, optionally schema-qualified (e.g. public.Users)' },
           data: {
             type: 'object',
             additionalProperties: true,
           },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
         required: ['table', 'data'],
       },
@@ -66,12 +320,16 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
       inputSchema: {
         type: 'object',
         properties: {
-          table: { type: 'string' },
+          table: { type: 'string', description: 'Table name, optionally schema-qualified (e.g. public.Users)' },
           data: {
             type: 'object',
             additionalProperties: true,
           },
-          where: { type: 'string' },
+          where: whereSchema,
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+          confirm: confirmSchema,
         },
         required: ['table', 'data', 'where'],
       },
@@ -82,12 +340,34 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
       inputSchema: {
         type: 'object',
         properties: {
-          table: { type: 'string' },
-          where: { type: 'string' },
+          table: { type: 'string', description: 'Table name, optionally schema-qualified (e.g. public.Users)' },
+          where: whereSchema,
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+          confirm: confirmSchema,
         },
         required: ['table', 'where'],
       },
     },
+    {
+      name: 'terminateBackend',
+      description:
+        "Terminate, or only cancel the running query of, another session connected to the current database. Requires the database's allowTerminate setting",
+      inputSchema: {
+        type: 'object',
+        properties: {
+          pid: { type: 'integer', description: 'Process ID of the session, as reported by getActivity or getLocks' },
+          cancelOnly: {
+            type: 'boolean',
+            description: 'Cancel the current query with pg_cancel_backend instead of closing the session',
+          },
+          dryRun: { type: 'boolean', description: 'Report the session that would be signalled without signalling it' },
+          database: databaseSchema,
+        },
+        required: ['pid'],
+      },
+    },
     {
       name: 'createTable',
       description: 'Create a new table with specified columns and constraints',
@@ -114,6 +394,9 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
               description: 'Table-level constraints like PRIMARY KEY, FOREIGN KEY, etc.',
             },
           },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
         required: ['tableName', 'columns'],
       },
@@ -130,6 +413,9 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
           language: { type: 'string', description: 'plpgsql, sql, etc.' },
           body: { type: 'string' },
           options: { type: 'string', description: 'Additional function options' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
         required: ['name', 'parameters', 'returnType', 'language', 'body'],
       },
@@ -150,6 +436,9 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
           },
           forEach: { type: 'string', description: 'ROW or STATEMENT' },
           condition: { type: 'string', description: 'Optional WHEN condition' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
         required: ['name', 'tableName', 'functionName', 'when', 'events', 'forEach'],
       },
@@ -169,6 +458,9 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
           unique: { type: 'boolean' },
           type: { type: 'string', description: 'BTREE, HASH, GIN, GIST, etc.' },
           where: { type: 'string', description: 'Optional condition' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
         required: ['tableName', 'indexName', 'columns'],
       },
@@ -185,9 +477,246 @@ export const createToolDefinitions = (databaseNames: string[]): Tool[] => {
             description: 'ADD COLUMN, DROP COLUMN, ALTER COLUMN, etc.',
           },
           details: { type: 'string', description: 'Specific details for the operation' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
         },
         required: ['tableName', 'operation', 'details'],
       },
     },
+    {
+      name: 'createView',
+      description: 'Create a view or a materialized view from a SELECT query',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          query: { type: 'string', description: 'The SELECT query the view is defined by' },
+          materialized: { type: 'boolean', description: 'Create a materialized view, which stores the query results' },
+          orReplace: { type: 'boolean', description: 'Replace an existing view of the same name (views only)' },
+          ifNotExists: { type: 'boolean', description: 'Do nothing if the view exists (materialized views only)' },
+          withData: {
+            type: 'boolean',
+            description: 'Populate the materialized view right away. Defaults to true',
+          },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['name', 'query'],
+      },
+    },
+    {
+      name: 'refreshMaterializedView',
+      description: 'Replace the contents of a materialized view by running its query again',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          concurrently: {
+            type: 'boolean',
+            description: 'Refresh without blocking reads. Requires a unique index on the materialized view',
+          },
+          withData: { type: 'boolean', description: 'Set to false to empty the view instead. Defaults to true' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'createType',
+      description: 'Create an enum type from a list of values, or a composite type from a list of attributes',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          values: { type: 'array', items: { type: 'string' }, description: 'Labels of an enum type, in order' },
+          attributes: {
+            type: 'array',
+            description: 'Attributes of a composite type',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                type: { type: 'string' },
+              },
+              required: ['name', 'type'],
+            },
+          },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'createSequence',
+      description: 'Create a sequence',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          dataType: { type: 'string', description: 'smallint, integer or bigint. Defaults to bigint' },
+          start: { type: 'integer' },
+          increment: { type: 'integer' },
+          minValue: { type: 'integer' },
+          maxValue: { type: 'integer' },
+          cache: { type: 'integer', minimum: 1 },
+          cycle: { type: 'boolean', description: 'Wrap around when the sequence reaches its limit' },
+          ownedBy: {
+            type: 'string',
+            description: 'Column the sequence belongs to (e.g. "orders.id"); it is dropped along with the column',
+          },
+          ifNotExists: { type: 'boolean' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'createSchema',
+      description: 'Create a schema',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          authorization: { type: 'string', description: 'Role that owns the schema' },
+          ifNotExists: { type: 'boolean' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'createExtension',
+      description: 'Install an extension that is available on the database server',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          schema: { type: 'string', description: "Schema to install the extension's objects in" },
+          version: { type: 'string' },
+          cascade: { type: 'boolean', description: 'Also install the extensions it requires' },
+          ifNotExists: { type: 'boolean' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'dropObject',
+      description:
+        'Drop a table, view, materialized view, index, sequence, type, schema, extension, function or trigger. With cascade, the objects that depend on it are listed first, and they are only dropped along with it when confirmed',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          objectType: { type: 'string', enum: OBJECT_TYPES },
+          name: { type: 'string' },
+          table: { type: 'string', description: 'Table the trigger is defined on (triggers only)' },
+          arguments: {
+            type: 'string',
+            description: 'Argument types of the function (e.g. "integer, text"), to pick one of several overloads',
+          },
+          ifExists: { type: 'boolean', description: 'Do nothing if the object does not exist' },
+          cascade: { type: 'boolean', description: 'Also drop the objects that depend on this one' },
+          confirm: {
+            type: 'boolean',
+            description: 'Drop with cascade even though other objects depend on this one',
+          },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['objectType', 'name'],
+      },
+    },
+    {
+      name: 'renameObject',
+      description: 'Rename a table, view, index, sequence, type, schema, function or trigger',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          objectType: { type: 'string', enum: RENAMABLE_OBJECT_TYPES },
+          name: { type: 'string' },
+          newName: { type: 'string', description: 'New name, without a schema; the object stays in its schema' },
+          table: { type: 'string', description: 'Table the trigger is defined on (triggers only)' },
+          arguments: {
+            type: 'string',
+            description: 'Argument types of the function (e.g. "integer, text"), to pick one of several overloads',
+          },
+          ifExists: {
+            type: 'boolean',
+            description: 'Do nothing if the object does not exist (tables, views, indexes and sequences only)',
+          },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+        required: ['objectType', 'name', 'newName'],
+      },
+    },
+    {
+      name: 'migrationStatus',
+      description: 'List the migration files and whether each one has been applied to the database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
+    {
+      name: 'applyMigrations',
+      description: 'Apply pending migrations in version order, in a single transaction',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          version: { type: 'string', description: 'Only apply pending migrations up to and including this version' },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
+    {
+      name: 'rollbackMigration',
+      description: 'Run the down migration of the most recently applied migration',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          version: {
+            type: 'string',
+            description: 'Version expected to be rolled back. The call fails if it is not the latest applied migration',
+          },
+          dryRun: dryRunSchema,
+          timeout: timeoutSchema,
+          database: databaseSchema,
+        },
+      },
+    },
   ];
 };
+
+export const annotateToolAccess = (tools: Tool[], currentDatabase: string, access: AccessLevel): Tool[] => {
+  return tools.map(tool => {
+    if (isToolAllowed(tool.name, access)) {
+      return tool;
+    }
+
+    const requiredAccess = getRequiredAccessLevel(tool.name);
+    return {
+      ...tool,
+      description: `${tool.description} [Unavailable on '${currentDatabase}' (${access}): requires ${requiredAccess} access]`,
+    };
+  });
+};